@@ -1,22 +1,72 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { ChatMessageContent, Sender, StoredChat, ChatMessageHistoryItem, AppView, ThinkingDetails, BaseTheme, AccentTheme, LanguageOption } from './types';
-import ChatMessageItem from './components/ChatMessageItem';
+import { ChatMessageContent, Sender, StoredChat, ChatFolder, ChatMessageHistoryItem, AppView, ThinkingDetails, ThinkingLevel, BaseTheme, AccentTheme, LanguageOption, MessageAttachment, TokenUsage, ModelPrice, ContextSummary, Persona, GenerationParams, AuthStatus, RateLimitErrorBody, StreamEvent } from './types';
+import ChatMessageItem, { getMessageElementId } from './components/ChatMessageItem';
 import ChatInput from './components/ChatInput';
 import SettingsPage from './components/SettingsPage';
 import NewChatLandingPage from './components/NewChatLandingPage';
 import SummarizeTextModal from './components/SummarizeTextModal';
 import SummarizationEditorPage from './components/SummarizationEditorPage';
+import ChatExportMenu from './components/ChatExportMenu';
+import ImportConversationsModal from './components/ImportConversationsModal';
+import ChatSearchResults from './components/ChatSearchResults';
+import ChatList from './components/ChatList';
+import UndoToast from './components/UndoToast';
+import SignInScreen from './components/SignInScreen';
+import ContextMeter from './components/ContextMeter';
+import ContextSummaryNotice from './components/ContextSummaryNotice';
+import RateLimitNotice from './components/RateLimitNotice';
+import ChatInstructionsMenu, { ChatInstructionsUpdate } from './components/ChatInstructionsMenu';
+import ChatModelMenu from './components/ChatModelMenu';
+import ChatParamsMenu from './components/ChatParamsMenu';
+import ModelChangeDivider from './components/ModelChangeDivider';
+import { ChatOrganizationUpdate } from './components/ChatActionsMenu';
 import {
   sendMessageToChatStream,
   generateChatTitleWithAI,
-  AVAILABLE_CHAT_MODELS,
-  DEFAULT_CHAT_MODEL,
-  THINKING_CONFIG_SUPPORTED_MODELS,
-  getFriendlyModelName,
+  translateText,
+  summarizeConversation,
 } from './services/geminiService';
+import { ProxyError, RateLimitError, classifyError, errorFromStreamEvent } from './services/errorService';
+import { MAX_PROXY_REQUEST_BYTES, getRequestBytes } from './services/streamService';
+import {
+  getModelRegistry,
+  fetchModelRegistry,
+  getModelInfo,
+  getFriendlyModelName,
+  getDefaultChatModel,
+  getDefaultModelPrices,
+  getModelContextWindow,
+  getChatModel,
+  isThinkingSupported,
+} from './services/modelRegistryService';
+import { DEFAULT_THINKING_LEVEL, getThinkingBudget } from './services/thinkingService';
 import * as localStorageService from './services/localStorageService';
-import { Part } from "@google/genai";
-import { Menu, X, Trash2, Settings as SettingsIcon } from 'lucide-react';
+import { fetchAuthStatus, onSignInRequired, signOut } from './services/authService';
+import * as chatDatabaseService from './services/chatDatabaseService';
+import { ensureMessageTree, findLatestLeafId, getActivePath, getSiblings } from './services/messageTreeService';
+import {
+  ChatExportFormat,
+  ChatImportResult,
+  downloadChatExport,
+  downloadFile,
+  exportChatsAsJson,
+  parseChatArchive,
+  mergeImportedChats,
+  reassignChatIds,
+} from './services/chatExportService';
+import { createSearchIndex, SearchResult } from './services/searchService';
+import { DEFAULT_TRASH_RETENTION_DAYS, isInTrash, purgeExpiredTrash } from './services/chatOrganizationService';
+import {
+  DEFAULT_CONTEXT_TOKEN_LIMIT,
+  estimateContextTokens,
+  getContextLimit,
+  getContextToSend,
+  planCompaction,
+  trimToLimit,
+} from './services/contextService';
+import { resolveSystemInstruction } from './services/personaService';
+import { mergeGenerationParams } from './services/generationParamsService';
+import { Menu, X, Settings as SettingsIcon, Upload, Search, LogOut } from 'lucide-react';
 
 const INITIAL_AI_WELCOME_TEXT_BASE = "Hello! I'm NeuraMorphosis AI."; 
 
@@ -30,22 +80,39 @@ const createNewWelcomeMessage = (modelIdForWelcome: string): ChatMessageContent
   id: `ai-welcome-${Date.now()}`,
   text: createAppInitialWelcomeText(modelIdForWelcome),
   sender: Sender.AI,
+  parentId: null,
   isStreaming: false,
 });
 
-const mapMessagesToGeminiHistory = (messages: ChatMessageContent[]): ChatMessageHistoryItem[] => {
+// Files are re-sent with the last few user turns only; older ones are named in text instead.
+const ATTACHMENT_TURNS_TO_RESEND = 3;
+
+const attachmentPlaceholder = (attachment: MessageAttachment) => ({
+  text: `[Attachment "${attachment.name}" (${attachment.mimeType}) from an earlier turn, not included]`,
+});
+
+// Attachments go first, as Gemini recommends placing media before the text that refers to it.
+const buildMessageParts = (text: string, attachments: MessageAttachment[] = [], includeAttachments = true): ChatMessageHistoryItem['parts'] => {
+  const parts: ChatMessageHistoryItem['parts'] = attachments.map(attachment => includeAttachments
+    ? { inlineData: { data: attachment.data, mimeType: attachment.mimeType } }
+    : attachmentPlaceholder(attachment));
+  if (text.trim() !== "") {
+    parts.push({ text });
+  }
+  return parts;
+};
+
+// Attachments are kept for the last `attachmentTurns` user messages.
+const mapMessagesToGeminiHistory = (messages: ChatMessageContent[], attachmentTurns = ATTACHMENT_TURNS_TO_RESEND): ChatMessageHistoryItem[] => {
   const history: ChatMessageHistoryItem[] = [];
+  let userMessagesLeft = messages.filter(msg => msg.sender === Sender.User).length;
   for (const msg of messages) {
-    if (msg.sender === Sender.AI && msg.text.startsWith(INITIAL_AI_WELCOME_TEXT_BASE)) {
+    if (msg.sender === Sender.User) userMessagesLeft--;
+    // Failed replies are not part of the conversation the model sees.
+    if (msg.isError || (msg.sender === Sender.AI && msg.text.startsWith(INITIAL_AI_WELCOME_TEXT_BASE))) {
         continue;
     }
-    let textForHistory = msg.text;
-    if (textForHistory.trim() === "") continue;
-
-    const currentMessageParts: ({ text: string } | { inlineData: { data: string; mimeType: string } })[] = [];
-    if (textForHistory) {
-        currentMessageParts.push({ text: textForHistory });
-    }
+    const currentMessageParts = buildMessageParts(msg.text, msg.attachments, userMessagesLeft < attachmentTurns);
 
     if (currentMessageParts.length > 0) {
       history.push({
@@ -57,8 +124,24 @@ const mapMessagesToGeminiHistory = (messages: ChatMessageContent[]): ChatMessage
   return history;
 };
 
+// The history for a chat request (without its last, new message), leaving out attachments
+// from the oldest turns first until the request fits MAX_PROXY_REQUEST_BYTES.
+const buildChatHistoryWithinBudget = (messages: ChatMessageContent[], messageParts: ChatMessageHistoryItem['parts']): ChatMessageHistoryItem[] => {
+  for (let attachmentTurns = ATTACHMENT_TURNS_TO_RESEND; attachmentTurns >= 1; attachmentTurns--) {
+    const history = mapMessagesToGeminiHistory(messages, attachmentTurns).slice(0, -1);
+    if (getRequestBytes({ history, messageParts }) <= MAX_PROXY_REQUEST_BYTES) {
+      return history;
+    }
+  }
+  throw new ProxyError('This conversation is too large to send. Remove some attachments, or continue in a new chat.', 413, 'payload-too-large');
+};
+
 const TITLE_UPDATE_MESSAGE_THRESHOLD = 3;
 
+// Why a reply was aborted while streaming. Either way the text so far is kept, but a reply
+// left behind by opening another chat is only saved to its own chat, not shown.
+type ResponseAbortReason = 'stopped' | 'left-chat';
+
 interface ChatContextForTitleUpdate {
   id: string;
   isNew: boolean;
@@ -80,15 +163,22 @@ const SUPPORTED_LANGUAGES: LanguageOption[] = [
   { code: 'pt', name: 'Portuguese' },
 ];
 
+const getLanguageName = (languageCode: string): string =>
+  SUPPORTED_LANGUAGES.find(lang => lang.code === languageCode)?.name || languageCode;
+
 
 export const App: React.FC = () => {
-  const appInitialWelcomeTextRef = useRef(createAppInitialWelcomeText(DEFAULT_CHAT_MODEL));
+  const appInitialWelcomeTextRef = useRef(createAppInitialWelcomeText(getDefaultChatModel()));
 
-  const [messages, setMessages] = useState<ChatMessageContent[]>(() => [createNewWelcomeMessage(DEFAULT_CHAT_MODEL)]);
+  const [messages, setMessages] = useState<ChatMessageContent[]>(() => [createNewWelcomeMessage(getDefaultChatModel())]);
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isTitleLoading, setIsTitleLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [rateLimit, setRateLimit] = useState<{ limit: RateLimitErrorBody['limit']; retryAt: number } | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const responseAbortControllerRef = useRef<AbortController | null>(null);
+  const abortResponse = (reason: ResponseAbortReason) => responseAbortControllerRef.current?.abort(reason);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
   const [currentView, setCurrentView] = useState<AppView>('chat');
@@ -96,16 +186,46 @@ export const App: React.FC = () => {
 
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
   const [allChats, setAllChats] = useState<StoredChat[]>([]);
-
-  const [thinkingBudget, setThinkingBudget] = useState<number>(0);
-  const [currentChatModel, setCurrentChatModel] = useState<string>(DEFAULT_CHAT_MODEL);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const hasLoadedChatsRef = useRef(false);
+  const persistedChatsRef = useRef<StoredChat[]>([]); // Last snapshot written to IndexedDB
+  const [chatFolders, setChatFolders] = useState<ChatFolder[]>(() => localStorageService.loadChatFolders());
+  const [trashRetentionDays, setTrashRetentionDaysState] = useState<number>(() => localStorageService.loadTrashRetentionDays() ?? DEFAULT_TRASH_RETENTION_DAYS);
+  const [personas, setPersonas] = useState<Persona[]>(() => localStorageService.loadPersonas());
+  const [newChatPersonaId, setNewChatPersonaIdState] = useState<string | null>(() => localStorageService.loadNewChatPersonaId());
+  const [trashUndo, setTrashUndo] = useState<{ chatIds: string[]; message: string } | null>(null);
+
+  const [authStatus, setAuthStatus] = useState<AuthStatus | null>(null);
+  const [isSignInRequired, setIsSignInRequired] = useState<boolean>(false);
+  const [thinkingLevel, setThinkingLevelState] = useState<ThinkingLevel>(() => localStorageService.loadThinkingLevel() || DEFAULT_THINKING_LEVEL);
+  const [defaultChatModel, setDefaultChatModelState] = useState<string>(() => {
+    const savedModel = localStorageService.loadDefaultChatModel();
+    return savedModel && getModelInfo(savedModel) ? savedModel : getDefaultChatModel();
+  });
 
   const [isSummarizeModalOpen, setIsSummarizeModalOpen] = useState<boolean>(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState<boolean>(false);
+
+  const searchIndexRef = useRef(createSearchIndex());
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
 
   const [baseTheme, setBaseTheme] = useState<BaseTheme>(() => localStorageService.loadBaseTheme() || 'dark');
   const [accentTheme, setAccentTheme] = useState<AccentTheme>(() => localStorageService.loadAccentTheme() || 'default');
   const [customCSS, setCustomCSSState] = useState<string>(() => localStorageService.loadCustomCSS());
   const [targetLanguage, setTargetLanguageState] = useState<string>(() => localStorageService.loadTargetLanguage() || DEFAULT_TARGET_LANGUAGE);
+  const [modelRegistry, setModelRegistry] = useState(getModelRegistry);
+  // Only prices the user changed are saved, so price updates in the model list still apply.
+  const [modelPriceOverrides, setModelPriceOverrides] = useState<Record<string, ModelPrice>>(() => localStorageService.loadModelPrices() || {});
+  // getDefaultModelPrices reads the registry held by modelRegistryService, hence the dependency.
+  const modelPrices = useMemo(() => ({ ...getDefaultModelPrices(), ...modelPriceOverrides }), [modelRegistry, modelPriceOverrides]);
+  const availableModels = useMemo(() => modelRegistry.models.map(model => model.id), [modelRegistry]);
+  const [contextTokenLimit, setContextTokenLimitState] = useState<number>(() => localStorageService.loadContextTokenLimit() ?? DEFAULT_CONTEXT_TOKEN_LIMIT);
+  const [isCompactingContext, setIsCompactingContext] = useState<boolean>(false);
+  const [generationParams, setGenerationParamsState] = useState<GenerationParams>(() => localStorageService.loadGenerationParams());
+
+  const currentChat = useMemo(() => allChats.find(chat => chat.id === currentChatId), [allChats, currentChatId]);
+  const currentChatModel = currentChat ? getChatModel(currentChat, defaultChatModel) : defaultChatModel;
 
 
    useEffect(() => {
@@ -129,6 +249,84 @@ export const App: React.FC = () => {
     localStorageService.saveTargetLanguage(langCode);
   };
 
+  const setAndSaveModelPrices = (prices: Record<string, ModelPrice>) => {
+    const defaultPrices = getDefaultModelPrices();
+    const overrides = Object.fromEntries(Object.entries(prices).filter(([model, price]) =>
+      price.inputPerMillion !== defaultPrices[model]?.inputPerMillion || price.outputPerMillion !== defaultPrices[model]?.outputPerMillion
+    ));
+    setModelPriceOverrides(overrides);
+    localStorageService.saveModelPrices(overrides);
+  };
+
+  // Any request the proxy turns away brings up the sign-in screen.
+  useEffect(() => {
+    const unsubscribe = onSignInRequired(() => setIsSignInRequired(true));
+    fetchAuthStatus()
+      .then(status => {
+        setAuthStatus(status);
+        if (!status.user) setIsSignInRequired(true);
+      })
+      .catch(e => console.error("Error checking sign-in status:", e));
+    return unsubscribe;
+  }, []);
+
+  const handleSignedIn = (status: AuthStatus) => {
+    setAuthStatus(status);
+    setIsSignInRequired(false);
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (e) {
+      console.error("Error signing out:", e);
+    }
+    setAuthStatus(prevStatus => prevStatus && { ...prevStatus, user: null });
+    setIsSignInRequired(true);
+  };
+
+  // Fetched again after signing in, as the request made while signed out was refused.
+  useEffect(() => {
+    if (isSignInRequired) return;
+    fetchModelRegistry()
+      .then(registry => {
+        setModelRegistry(registry);
+        setDefaultChatModelState(prevModel => registry.models.some(model => model.id === prevModel) ? prevModel : registry.defaultModel);
+      })
+      .catch(e => console.error("Error loading the model list, using the saved one:", e));
+  }, [isSignInRequired]);
+
+  const setAndSaveContextTokenLimit = (limit: number) => {
+    setContextTokenLimitState(limit);
+    localStorageService.saveContextTokenLimit(limit);
+  };
+
+  const setAndSaveGenerationParams = (params: GenerationParams) => {
+    setGenerationParamsState(params);
+    localStorageService.saveGenerationParams(params);
+  };
+
+  const setAndSaveThinkingLevel = (level: ThinkingLevel) => {
+    setThinkingLevelState(level);
+    localStorageService.saveThinkingLevel(level);
+  };
+
+  const setAndSaveDefaultChatModel = (model: string) => {
+    setDefaultChatModelState(model);
+    localStorageService.saveDefaultChatModel(model);
+  };
+
+  const setAndSaveNewChatPersonaId = (personaId: string | null) => {
+    setNewChatPersonaIdState(personaId);
+    localStorageService.saveNewChatPersonaId(personaId);
+  };
+
+  const setAndSaveTrashRetentionDays = (days: number) => {
+    setTrashRetentionDaysState(days);
+    localStorageService.saveTrashRetentionDays(days);
+    setAllChats(prevChats => purgeExpiredTrash(prevChats, days));
+  };
+
   useEffect(() => {
     const styleTagId = 'custom-styles-tag';
     let styleTag = document.getElementById(styleTagId) as HTMLStyleElement | null;
@@ -149,35 +347,119 @@ export const App: React.FC = () => {
     chatEndRef.current?.scrollIntoView({ behavior });
   };
 
+  const describeStorageError = (e: unknown, action: string): string => {
+    if (chatDatabaseService.isStorageFullError(e)) {
+      return "Browser storage is full, so recent changes to your chats could not be saved. Delete some older chats to free up space.";
+    }
+    return `Could not ${action} your chats: ${e instanceof Error ? e.message : String(e)}`;
+  };
+
   useEffect(() => {
-    const loadedChats = localStorageService.loadChats();
-    setAllChats(loadedChats);
-    const activeId = localStorageService.loadActiveChatId();
-
-    if (activeId && loadedChats.some(chat => chat.id === activeId)) {
-      const activeChat = loadedChats.find(chat => chat.id === activeId);
-      if (activeChat) {
-        setMessages(activeChat.messages);
-        setCurrentChatId(activeChat.id);
-        if (activeChat.messages.length > 0 && activeChat.messages[0].sender === Sender.AI && activeChat.messages[0].text.startsWith(INITIAL_AI_WELCOME_TEXT_BASE)) {
-            appInitialWelcomeTextRef.current = activeChat.messages[0].text;
+    let isCancelled = false;
+    chatDatabaseService.loadChats()
+      .catch((e): StoredChat[] => {
+        console.error("Error loading chats from IndexedDB:", e);
+        setStorageError(describeStorageError(e, 'load'));
+        return [];
+      })
+      .then(storedChats => {
+        if (isCancelled) return;
+        persistedChatsRef.current = storedChats;
+        hasLoadedChatsRef.current = true;
+        const loadedChats = purgeExpiredTrash(storedChats, trashRetentionDays).map(ensureMessageTree);
+        setAllChats(loadedChats);
+        const activeId = localStorageService.loadActiveChatId();
+
+        if (activeId && loadedChats.some(chat => chat.id === activeId && !isInTrash(chat))) {
+          const activeChat = loadedChats.find(chat => chat.id === activeId);
+          if (activeChat) {
+            setMessages(activeChat.messages);
+            setActiveLeafId(activeChat.activeLeafId ?? null);
+            setCurrentChatId(activeChat.id);
+            if (activeChat.messages.length > 0 && activeChat.messages[0].sender === Sender.AI && activeChat.messages[0].text.startsWith(INITIAL_AI_WELCOME_TEXT_BASE)) {
+                appInitialWelcomeTextRef.current = activeChat.messages[0].text;
+            } else {
+                appInitialWelcomeTextRef.current = createAppInitialWelcomeText(getChatModel(activeChat, defaultChatModel));
+            }
+          }
         } else {
-            appInitialWelcomeTextRef.current = createAppInitialWelcomeText(currentChatModel);
+          startNewChat();
         }
-      }
-    } else {
-      startNewChat();
-    }
-  }, [currentChatModel]); // Cannot add startNewChat directly due to its own dependencies
+      });
+    return () => { isCancelled = true; };
+    // Loads once on mount; later changes to settings read here must not reload the chats.
+  }, []);
 
   useEffect(() => {
-    localStorageService.saveChats(allChats);
+    if (!hasLoadedChatsRef.current) return;
+    const previousChats = persistedChatsRef.current;
+    persistedChatsRef.current = allChats;
+    chatDatabaseService.saveChatChanges(previousChats, allChats).catch(e => {
+      console.error("Error saving chats to IndexedDB:", e);
+      // Diff against the last known-good snapshot again on the next change.
+      if (persistedChatsRef.current === allChats) {
+        persistedChatsRef.current = previousChats;
+      }
+      setStorageError(describeStorageError(e, 'save'));
+    });
   }, [allChats]);
 
   useEffect(() => {
     localStorageService.saveActiveChatId(currentChatId);
   }, [currentChatId]);
 
+  useEffect(() => {
+    localStorageService.saveChatFolders(chatFolders);
+  }, [chatFolders]);
+
+  useEffect(() => {
+    localStorageService.savePersonas(personas);
+  }, [personas]);
+
+  useEffect(() => {
+    const searchIndex = searchIndexRef.current;
+    const searchableChats = allChats.filter(chat => !isInTrash(chat));
+    const chatIds = new Set(searchableChats.map(chat => chat.id));
+    searchIndex.getIndexedChatIds().filter(id => !chatIds.has(id)).forEach(searchIndex.removeChat);
+    searchableChats.forEach(chat => searchIndex.syncChat(chat.id, chat.title, chat.messages));
+  }, [allChats]);
+
+  // The open chat's messages change while streaming, before they are copied into allChats.
+  useEffect(() => {
+    if (!currentChatId) return;
+    const title = allChats.find(chat => chat.id === currentChatId)?.title || '';
+    searchIndexRef.current.syncChat(currentChatId, title, messages);
+  }, [messages, currentChatId, allChats]);
+
+  const searchResults = useMemo(
+    () => searchIndexRef.current.search(searchQuery),
+    [searchQuery, allChats, messages]
+  );
+
+  const activeMessages = useMemo(() => getActivePath(messages, activeLeafId), [messages, activeLeafId]);
+
+  // A divider goes before the user turn whose reply came from a different model than the
+  // reply before it, keyed by that user message's ID.
+  const modelChanges = useMemo(() => {
+    const changes = new Map<string, string>();
+    let previousModel: string | undefined;
+    for (const msg of activeMessages) {
+      if (msg.sender !== Sender.AI || !msg.model) continue;
+      if (previousModel && msg.model !== previousModel) {
+        changes.set(msg.parentId || msg.id, msg.model);
+      }
+      previousModel = msg.model;
+    }
+    return changes;
+  }, [activeMessages]);
+
+  const currentContextSummary = currentChat?.contextSummary;
+  const contextLimit = getContextLimit(getModelContextWindow(currentChatModel), contextTokenLimit);
+  const contextTokens = useMemo(
+    () => estimateContextTokens(activeMessages, currentContextSummary),
+    [activeMessages, currentContextSummary]
+  );
+
   const isEffectivelyNewChat = useMemo(() => {
     return messages.length <= 1 &&
            (!messages[0] || (messages[0].sender === Sender.AI && messages[0].text.startsWith(INITIAL_AI_WELCOME_TEXT_BASE))) &&
@@ -192,6 +474,13 @@ export const App: React.FC = () => {
     }
   }, [messages, isLoading, currentView, isEffectivelyNewChat]);
 
+  useEffect(() => {
+    if (!highlightedMessageId || currentView !== 'chat') return;
+    document.getElementById(getMessageElementId(highlightedMessageId))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeout = window.setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId, currentView]);
+
   const titleUpdateQueue = useRef<ChatContextForTitleUpdate | null>(null);
   const titleUpdateTimeout = useRef<number | null>(null);
 
@@ -219,7 +508,7 @@ export const App: React.FC = () => {
       const newTitle = await generateChatTitleWithAI(messagesForContext, INITIAL_AI_WELCOME_TEXT_BASE);
       setAllChats(prevChats =>
         prevChats.map(chat =>
-          chat.id === chatIdForTitle ? { ...chat, title: newTitle, aiMessagesSinceLastTitleUpdate: 0 } : chat
+          chat.id === chatIdForTitle && !chat.isTitleLocked ? { ...chat, title: newTitle, aiMessagesSinceLastTitleUpdate: 0 } : chat
         )
       );
     } catch (e) {
@@ -229,10 +518,13 @@ export const App: React.FC = () => {
     }
   }, [currentChatId]);
 
-  const scheduleTitleUpdate = useCallback((chatIdToUpdate: string, isNewChat: boolean = false) => {
-    const messagesForContext = chatIdToUpdate === currentChatId
-                               ? messages
-                               : (allChats.find(c => c.id === chatIdToUpdate)?.messages || []);
+  const scheduleTitleUpdate = useCallback((chatIdToUpdate: string, isNewChat: boolean = false, contextMessages?: ChatMessageContent[]) => {
+    const chatToUpdate = allChats.find(c => c.id === chatIdToUpdate);
+    if (chatToUpdate?.isTitleLocked) return;
+    const messagesForContext = contextMessages
+                               ?? (chatIdToUpdate === currentChatId
+                                   ? activeMessages
+                                   : (chatToUpdate ? getActivePath(chatToUpdate.messages, chatToUpdate.activeLeafId) : []));
 
     if (messagesForContext.length === 0 && !isNewChat) return;
     
@@ -246,22 +538,27 @@ export const App: React.FC = () => {
       clearTimeout(titleUpdateTimeout.current);
     }
     titleUpdateTimeout.current = window.setTimeout(processTitleUpdateQueue, 2000);
-  }, [allChats, currentChatId, messages, processTitleUpdateQueue]);
+  }, [allChats, currentChatId, activeMessages, processTitleUpdateQueue]);
   
   const startNewChat = useCallback(() => {
+    abortResponse('left-chat');
     const newChatId = `chat-${Date.now()}`;
-    appInitialWelcomeTextRef.current = createAppInitialWelcomeText(currentChatModel);
-    const welcomeMessage = createNewWelcomeMessage(currentChatModel);
+    appInitialWelcomeTextRef.current = createAppInitialWelcomeText(defaultChatModel);
+    const welcomeMessage = createNewWelcomeMessage(defaultChatModel);
 
     const newChat: StoredChat = {
       id: newChatId,
       title: "New Chat",
       createdAt: new Date().toISOString(),
       messages: [welcomeMessage],
+      activeLeafId: welcomeMessage.id,
       aiMessagesSinceLastTitleUpdate: 0,
+      personaId: newChatPersonaId,
+      model: defaultChatModel,
     };
 
     setMessages([welcomeMessage]);
+    setActiveLeafId(welcomeMessage.id);
     setCurrentChatId(newChatId);
     setAllChats(prev => [newChat, ...prev.filter(c => c.id !== newChatId)]);
 
@@ -270,47 +567,107 @@ export const App: React.FC = () => {
     setCurrentView('chat');
     setTextToSummarizeForEditor(null);
     if (isSidebarOpen) setIsSidebarOpen(false);
-  }, [isSidebarOpen, currentChatModel]);
+  }, [isSidebarOpen, defaultChatModel, newChatPersonaId]);
 
 
-  const handleSendMessage = async (inputText: string) => {
-    if (!inputText.trim() || isLoading) return;
+  const updateMessageInChat = (chatId: string | null, messageId: string, updates: Partial<ChatMessageContent>) => {
+    setMessages(prev => prev.map(msg => msg.id === messageId ? { ...msg, ...updates } : msg));
+    if (chatId) {
+      setAllChats(prevChats =>
+        prevChats.map(chat =>
+          chat.id === chatId
+            ? { ...chat, messages: chat.messages.map(msg => msg.id === messageId ? { ...msg, ...updates } : msg) }
+            : chat
+        )
+      );
+    }
+  };
 
+  const translateAiMessage = async (chatId: string | null, messageId: string, text: string, languageCode: string) => {
+    const languageName = getLanguageName(languageCode);
+    updateMessageInChat(chatId, messageId, { isTranslating: true });
+    try {
+      const translatedText = await translateText(text, languageName);
+      updateMessageInChat(chatId, messageId, {
+        isTranslating: false,
+        translation: { languageCode, languageName, text: translatedText },
+      });
+    } catch (e: any) {
+      console.error("Error translating AI response:", e);
+      updateMessageInChat(chatId, messageId, { isTranslating: false });
+      setError(`Translation to ${languageName} failed: ${e.message || "Unknown error"}`);
+    }
+  };
+
+  // Decides what history goes with the next request. When the conversation is close to the
+  // context limit, older turns are first folded into the chat's rolling summary; if that
+  // fails, the oldest turns are simply left out so the request still fits.
+  const buildContextForTurn = async (pathToUserMessage: ChatMessageContent[]) => {
+    const chatId = currentChatId;
+    let summary = allChats.find(chat => chat.id === chatId)?.contextSummary;
+    const plan = planCompaction(pathToUserMessage, summary, contextLimit);
+
+    if (plan) {
+      setIsCompactingContext(true);
+      try {
+        const previousSummary = getContextToSend(pathToUserMessage, summary).summaryText;
+        const newSummary: ContextSummary = {
+          text: await summarizeConversation(previousSummary, plan.messagesToSummarize),
+          throughMessageId: plan.throughMessageId,
+          createdAt: new Date().toISOString(),
+        };
+        summary = newSummary;
+        if (chatId) {
+          setAllChats(prevChats =>
+            prevChats.map(chat => chat.id === chatId ? { ...chat, contextSummary: newSummary } : chat)
+          );
+        }
+      } catch (e) {
+        console.error("Error compacting conversation context:", e);
+      } finally {
+        setIsCompactingContext(false);
+      }
+    }
+
+    const context = getContextToSend(pathToUserMessage, summary);
+    return { ...context, messages: trimToLimit(context.messages, contextLimit) };
+  };
+
+  // Streams a new AI reply to `userMessage`, which must already be part of `messagesWithUser`.
+  // New turns, edits and regenerations all go through here; the latter two add sibling branches.
+  const streamAiResponse = async (messagesWithUser: ChatMessageContent[], userMessage: ChatMessageContent, isFirstTurn: boolean) => {
     setError(null);
+    setRateLimit(null);
     setIsLoading(true);
     setCurrentView('chat');
 
-    const userMessage: ChatMessageContent = {
-      id: `user-${Date.now()}`,
-      text: inputText,
-      sender: Sender.User,
-    };
-
-    let baseMessagesForThisTurn = isEffectivelyNewChat ? [] : [...messages];
-    
-    const updatedMessagesWithUser = [...baseMessagesForThisTurn, userMessage];
-    setMessages(updatedMessagesWithUser);
+    const pathToUserMessage = getActivePath(messagesWithUser, userMessage.id);
+    setMessages(messagesWithUser);
+    setActiveLeafId(userMessage.id);
 
     if (currentChatId) {
       setAllChats(prevChats =>
         prevChats.map(chat => {
           if (chat.id === currentChatId) {
-            return { ...chat, messages: updatedMessagesWithUser };
+            return { ...chat, messages: messagesWithUser, activeLeafId: userMessage.id };
           }
           return chat;
         })
       );
-      if (isEffectivelyNewChat) { 
-        scheduleTitleUpdate(currentChatId, true); 
+      if (isFirstTurn) { 
+        scheduleTitleUpdate(currentChatId, true, pathToUserMessage); 
       }
     }
 
     const aiResponseId = `ai-${Date.now()}`;
 
+    // The preset becomes a token budget within the range of the chat's current model.
+    const thinkingBudget = getThinkingBudget(thinkingLevel, getModelInfo(currentChatModel)?.thinking);
     let thinkingDetailsForMessage: ThinkingDetails | undefined = undefined;
-    if (THINKING_CONFIG_SUPPORTED_MODELS.includes(currentChatModel)) {
+    if (isThinkingSupported(currentChatModel)) {
         thinkingDetailsForMessage = {
-            enabled: thinkingBudget > 0,
+            enabled: thinkingBudget !== 0,
+            level: thinkingLevel,
             budget: thinkingBudget,
             modelUsed: currentChatModel,
             reasoningSupportedByModel: true,
@@ -321,79 +678,175 @@ export const App: React.FC = () => {
       id: aiResponseId,
       text: "",
       sender: Sender.AI,
+      parentId: userMessage.id,
+      createdAt: new Date().toISOString(),
       isStreaming: true,
       thinkingDetails: thinkingDetailsForMessage,
+      model: currentChatModel,
     };
     setMessages(prev => [...prev, aiMessage]);
+    setActiveLeafId(aiResponseId);
 
     let accumulatedRegularText = "";
+    let accumulatedThoughts = "";
+    let thinkingStartedAt: number | undefined;
+    let thinkingMs: number | undefined;
+    const alternateTexts = new Map<number, string>(); // Extra candidates, by candidate index
+    let wasStopped = false;
+    let finishReason: string | undefined;
+    let usage: TokenUsage | undefined;
+    let isPromptBlocked = false;
+    let streamErrorEvent: Extract<StreamEvent, { type: 'error' }> | undefined;
+    const abortController = new AbortController();
+    responseAbortControllerRef.current = abortController;
 
     try {
-      const historyForChatApi = mapMessagesToGeminiHistory(updatedMessagesWithUser);
+      const { summaryText, messages: messagesToSend } = await buildContextForTurn(pathToUserMessage);
+      if (abortController.signal.aborted) {
+        throw new Error("Stopped before sending.");
+      }
+      const messageParts = buildMessageParts(userMessage.text, userMessage.attachments);
+      const historyForChatApi = buildChatHistoryWithinBudget(messagesToSend, messageParts);
 
-      const stream = await sendMessageToChatStream(
-          inputText,
-          historyForChatApi.slice(0, -1), // History excluding the current user message
+      const stream = sendMessageToChatStream(
+          messageParts,
+          historyForChatApi,
           currentChatModel,
-          thinkingBudget
+          {
+            thinkingBudget,
+            signal: abortController.signal,
+            systemInstruction: currentChat ? resolveSystemInstruction(currentChat, personas) : null,
+            contextSummary: summaryText,
+            generationParams: mergeGenerationParams(generationParams, currentChat?.generationParams),
+          }
       );
-      
-      for await (const chunk of stream) {
-        const textContent = chunk.text;
-        if (textContent) {
-          accumulatedRegularText += textContent;
-          setMessages(prev =>
-            prev.map(msg =>
-              msg.id === aiResponseId ? { ...msg, text: accumulatedRegularText } : msg
-            )
-          );
+
+      for await (const event of stream) {
+        switch (event.type) {
+          case 'thought-delta':
+            thinkingStartedAt ??= Date.now();
+            accumulatedThoughts += event.text;
+            setMessages(prev =>
+              prev.map(msg =>
+                msg.id === aiResponseId && msg.thinkingDetails
+                  ? { ...msg, thinkingDetails: { ...msg.thinkingDetails, thoughts: accumulatedThoughts } }
+                  : msg
+              )
+            );
+            break;
+          case 'text-delta':
+            if (event.candidate) {
+              alternateTexts.set(event.candidate, (alternateTexts.get(event.candidate) || '') + event.text);
+              break;
+            }
+            // Thinking ends when the answer starts.
+            if (thinkingStartedAt !== undefined && thinkingMs === undefined) {
+              thinkingMs = Date.now() - thinkingStartedAt;
+            }
+            accumulatedRegularText += event.text;
+            setMessages(prev =>
+              prev.map(msg =>
+                msg.id === aiResponseId ? { ...msg, text: accumulatedRegularText } : msg
+              )
+            );
+            break;
+          case 'usage':
+            usage = event.usage;
+            break;
+          case 'finish':
+            finishReason = event.reason;
+            isPromptBlocked = !!event.isPromptBlocked;
+            break;
+          case 'error':
+            streamErrorEvent = event;
+            break;
         }
       }
 
+      // Nothing usable arrived, so treat it like a failed request.
+      if (accumulatedRegularText === "") {
+        if (streamErrorEvent) throw errorFromStreamEvent(streamErrorEvent);
+        if (isPromptBlocked) throw new ProxyError("The message was blocked by the model's safety filters.", 200, 'safety-blocked');
+      }
     } catch (e: any) {
-      console.error("Error during chat stream:", e);
-      const errorMessage = `Error: ${e.message || "Failed to get response from AI."}`;
-      setError(errorMessage);
-      setMessages(prev =>
-        prev.map(msg =>
-          msg.id === aiResponseId ? {
-            ...msg,
-            text: errorMessage,
-            isError: true,
-            isStreaming: false
-          } : msg
-        )
-      );
-      setIsLoading(false);
-      return;
-    } finally {
-        // Final update after stream completes, to turn off streaming indicator
+      if (!abortController.signal.aborted) {
+        console.error("Error during chat stream:", e);
+        // Shown on the message itself, with a Retry button; rate limits also get a countdown.
+        if (e instanceof RateLimitError) {
+          setRateLimit({ limit: e.limit, retryAt: Date.now() + e.retryAfterSeconds * 1000 });
+        }
+        const failure = classifyError(e);
         setMessages(prev =>
-            prev.map(msg =>
+          prev.map(msg =>
             msg.id === aiResponseId ? {
-                ...msg,
-                text: accumulatedRegularText,
-                isStreaming: false, 
+              ...msg,
+              text: "",
+              isError: true,
+              error: failure,
+              isStreaming: false
             } : msg
-            )
+          )
         );
+        setIsLoading(false);
+        return;
+      }
+      // Stopped by the user, or by leaving the chat: keep whatever was streamed so far.
+      wasStopped = true;
+    } finally {
+        if (responseAbortControllerRef.current === abortController) {
+          responseAbortControllerRef.current = null;
+        }
     }
     
+    if (thinkingStartedAt !== undefined && thinkingMs === undefined) {
+      thinkingMs = Date.now() - thinkingStartedAt;
+    }
+    // Thoughts are only streamed for the first candidate, so alternates don't get them.
+    const finalThinkingDetails = thinkingDetailsForMessage && accumulatedThoughts
+      ? { ...thinkingDetailsForMessage, thoughts: accumulatedThoughts, thinkingMs }
+      : thinkingDetailsForMessage;
+
     let finalAiMessage: ChatMessageContent = {
         id: aiResponseId,
         text: accumulatedRegularText,
         sender: Sender.AI,
+        parentId: userMessage.id,
+        createdAt: aiMessage.createdAt,
         isStreaming: false,
-        thinkingDetails: thinkingDetailsForMessage,
+        isStopped: wasStopped,
+        thinkingDetails: finalThinkingDetails,
+        model: currentChatModel,
+        finishReason,
+        streamError: streamErrorEvent?.message,
+        usage,
     };
     
-    setMessages(prev => prev.map(msg => msg.id === aiResponseId ? finalAiMessage : msg));
+    // Extra candidates become alternate replies, reachable with the sibling arrows.
+    const alternateAiMessages: ChatMessageContent[] = Array.from(alternateTexts.entries())
+      .filter(([, text]) => text.trim() !== "")
+      .sort(([indexA], [indexB]) => indexA - indexB)
+      .map(([index, text]) => ({
+        id: `${aiResponseId}-alt${index}`,
+        text,
+        sender: Sender.AI,
+        parentId: userMessage.id,
+        createdAt: aiMessage.createdAt,
+        isStreaming: false,
+        isStopped: wasStopped,
+        thinkingDetails: thinkingDetailsForMessage,
+        model: currentChatModel,
+      }));
+
+    // After leaving the chat, `messages` holds the chat opened since.
+    if (abortController.signal.reason !== 'left-chat') {
+      setMessages(prev => [...prev.map(msg => msg.id === aiResponseId ? finalAiMessage : msg), ...alternateAiMessages]);
+    }
 
     if (currentChatId) {
         setAllChats(prevChats =>
             prevChats.map(chat => {
                 if (chat.id === currentChatId) {
-                    const finalMessagesForStorage = [...updatedMessagesWithUser.filter(m => m.id !== aiResponseId), finalAiMessage];
+                    const finalMessagesForStorage = [...messagesWithUser.filter(m => m.id !== aiResponseId), finalAiMessage, ...alternateAiMessages];
                     const newAiMessageCount = (chat.aiMessagesSinceLastTitleUpdate || 0) + 1;
                     if (newAiMessageCount >= TITLE_UPDATE_MESSAGE_THRESHOLD && chat.title !== "New Chat") {
                         scheduleTitleUpdate(currentChatId);
@@ -401,6 +854,7 @@ export const App: React.FC = () => {
                     return {
                         ...chat,
                         messages: finalMessagesForStorage,
+                        activeLeafId: aiResponseId,
                         aiMessagesSinceLastTitleUpdate: newAiMessageCount,
                     };
                 }
@@ -410,19 +864,112 @@ export const App: React.FC = () => {
     }
 
     setIsLoading(false);
+
+    if (targetLanguage !== DEFAULT_TARGET_LANGUAGE && accumulatedRegularText.trim() !== "") {
+      await translateAiMessage(currentChatId, aiResponseId, accumulatedRegularText, targetLanguage);
+    }
+  };
+
+
+  const handleSendMessage = async (inputText: string, attachments: MessageAttachment[] = []) => {
+    if ((!inputText.trim() && attachments.length === 0) || isLoading) return;
+
+    const userMessage: ChatMessageContent = {
+      id: `user-${Date.now()}`,
+      text: inputText,
+      sender: Sender.User,
+      parentId: isEffectivelyNewChat ? null : (activeMessages[activeMessages.length - 1]?.id ?? null),
+      createdAt: new Date().toISOString(),
+      attachments: attachments.length > 0 ? attachments : undefined,
+    };
+
+    let baseMessagesForThisTurn = isEffectivelyNewChat ? [] : [...messages];
+    await streamAiResponse([...baseMessagesForThisTurn, userMessage], userMessage, isEffectivelyNewChat);
   };
 
+  const handleEditMessage = async (messageId: string, newText: string) => {
+    const originalMessage = messages.find(msg => msg.id === messageId);
+    if (!originalMessage || (!newText.trim() && !originalMessage.attachments?.length) || isLoading) return;
 
-  const switchChat = (chatId: string) => {
+    const editedMessage: ChatMessageContent = {
+      id: `user-${Date.now()}`,
+      text: newText.trim(),
+      sender: Sender.User,
+      parentId: originalMessage.parentId ?? null,
+      createdAt: new Date().toISOString(),
+      attachments: originalMessage.attachments,
+    };
+    await streamAiResponse([...messages, editedMessage], editedMessage, false);
+  };
+
+  const handleRegenerate = async (aiMessageId: string) => {
+    const aiMessageToRegenerate = messages.find(msg => msg.id === aiMessageId);
+    const userMessage = aiMessageToRegenerate?.parentId ? messages.find(msg => msg.id === aiMessageToRegenerate.parentId) : undefined;
+    if (!userMessage || isLoading) return;
+
+    await streamAiResponse(messages, userMessage, false);
+  };
+
+  // Sends the same turn again. A failed reply nothing was added after is replaced; one the
+  // conversation went on from is kept, and the new reply becomes its sibling.
+  const handleRetry = async (failedMessageId: string) => {
+    const failedMessage = messages.find(msg => msg.id === failedMessageId);
+    const userMessage = failedMessage?.parentId ? messages.find(msg => msg.id === failedMessage.parentId) : undefined;
+    if (!userMessage || isLoading) return;
+
+    const hasReplies = messages.some(msg => msg.parentId === failedMessageId);
+    const remainingMessages = hasReplies ? messages : messages.filter(msg => msg.id !== failedMessageId);
+    await streamAiResponse(remainingMessages, userMessage, false);
+  };
+
+  const handleSelectSibling = (messageId: string, offset: number) => {
+    const message = messages.find(msg => msg.id === messageId);
+    if (!message || isLoading) return;
+
+    const siblings = getSiblings(messages, message);
+    const targetSibling = siblings[siblings.findIndex(msg => msg.id === messageId) + offset];
+    if (!targetSibling) return;
+
+    const newLeafId = findLatestLeafId(messages, targetSibling.id);
+    setActiveLeafId(newLeafId);
+    if (currentChatId) {
+      setAllChats(prevChats =>
+        prevChats.map(chat => chat.id === currentChatId ? { ...chat, activeLeafId: newLeafId } : chat)
+      );
+    }
+  };
+
+  const handleStopGenerating = () => {
+    abortResponse('stopped');
+  };
+
+  // A message on another branch is revealed by switching to the newest path through it.
+  const focusMessage = (chat: Pick<StoredChat, 'id' | 'messages'>, messageId: string) => {
+    const newLeafId = findLatestLeafId(chat.messages, messageId);
+    setActiveLeafId(newLeafId);
+    setHighlightedMessageId(messageId);
+    setAllChats(prevChats =>
+      prevChats.map(c => c.id === chat.id && c.activeLeafId !== newLeafId ? { ...c, activeLeafId: newLeafId } : c)
+    );
+  };
+
+  const switchChat = (chatId: string, focusMessageId?: string) => {
     const chatToLoad = allChats.find(c => c.id === chatId);
     if (chatToLoad) {
+      abortResponse('left-chat');
       setMessages(chatToLoad.messages);
+      if (focusMessageId) {
+        focusMessage(chatToLoad, focusMessageId);
+      } else {
+        setActiveLeafId(chatToLoad.activeLeafId ?? null);
+        setHighlightedMessageId(null);
+      }
       setCurrentChatId(chatId);
 
       if (chatToLoad.messages.length > 0 && chatToLoad.messages[0].sender === Sender.AI && chatToLoad.messages[0].text.startsWith(INITIAL_AI_WELCOME_TEXT_BASE)) {
           appInitialWelcomeTextRef.current = chatToLoad.messages[0].text;
       } else {
-          appInitialWelcomeTextRef.current = createAppInitialWelcomeText(currentChatModel);
+          appInitialWelcomeTextRef.current = createAppInitialWelcomeText(getChatModel(chatToLoad, defaultChatModel));
       }
       setError(null);
       setIsLoading(false);
@@ -432,16 +979,152 @@ export const App: React.FC = () => {
     }
   };
 
-  const deleteChat = (chatIdToDelete: string) => {
-    const updatedChats = allChats.filter(c => c.id !== chatIdToDelete);
+  const handleSelectSearchResult = (result: SearchResult) => {
+    if (result.chatId !== currentChatId) {
+      switchChat(result.chatId, result.messageId);
+      return;
+    }
+    if (!activeMessages.some(msg => msg.id === result.messageId)) {
+      if (isLoading) return; // Switching branches would hide the response being written
+      focusMessage({ id: currentChatId, messages }, result.messageId);
+    } else {
+      setHighlightedMessageId(result.messageId);
+    }
+    setCurrentView('chat');
+    setIsSidebarOpen(false);
+  };
+
+  const moveChatsToTrash = (chatIds: string[]) => {
+    if (chatIds.length === 0) return;
+    const deletedAt = new Date().toISOString();
+    const idsToTrash = new Set(chatIds);
+    const updatedChats = allChats.map(c => idsToTrash.has(c.id) ? { ...c, deletedAt } : c);
     setAllChats(updatedChats);
-    if (currentChatId === chatIdToDelete) {
-      if (updatedChats.length > 0) {
-        switchChat(updatedChats[0].id);
+    if (currentChatId && idsToTrash.has(currentChatId)) {
+      const nextChat = updatedChats.find(c => !c.isArchived && !isInTrash(c));
+      if (nextChat) {
+        switchChat(nextChat.id);
       } else {
         startNewChat();
       }
     }
+    const trashedChat = chatIds.length === 1 ? allChats.find(c => c.id === chatIds[0]) : undefined;
+    setTrashUndo({
+      chatIds,
+      message: trashedChat ? `"${trashedChat.title}" moved to trash` : `${chatIds.length} chats moved to trash`,
+    });
+  };
+
+  const restoreChatsFromTrash = (chatIds: string[]) => {
+    const idsToRestore = new Set(chatIds);
+    setAllChats(prevChats => prevChats.map(chat => {
+      if (!idsToRestore.has(chat.id)) return chat;
+      const { deletedAt, ...restoredChat } = chat;
+      return restoredChat;
+    }));
+  };
+
+  const permanentlyDeleteChats = (chatIds: string[]) => {
+    const idsToDelete = new Set(chatIds);
+    setAllChats(prevChats => prevChats.filter(chat => !idsToDelete.has(chat.id)));
+  };
+
+  const dismissTrashUndo = useCallback(() => setTrashUndo(null), []);
+  const clearRateLimit = useCallback(() => setRateLimit(null), []);
+
+  const renameChat = (chatId: string, title: string) => {
+    setAllChats(prevChats => prevChats.map(chat => chat.id === chatId ? { ...chat, title, isTitleLocked: true } : chat));
+  };
+
+  const duplicateChat = (chatId: string) => {
+    const original = allChats.find(c => c.id === chatId);
+    if (!original) return;
+    const copy: StoredChat = {
+      ...reassignChatIds(original, `copy-${Date.now()}`),
+      title: `${original.title} (copy)`,
+      createdAt: new Date().toISOString(),
+      isPinned: false,
+    };
+    setAllChats(prevChats => {
+      const index = prevChats.findIndex(c => c.id === chatId);
+      return [...prevChats.slice(0, index + 1), copy, ...prevChats.slice(index + 1)];
+    });
+  };
+
+  const updateChatOrganization = (chatId: string, updates: ChatOrganizationUpdate | ChatInstructionsUpdate | Pick<StoredChat, 'model' | 'generationParams'>) => {
+    setAllChats(prevChats => prevChats.map(chat => chat.id === chatId ? { ...chat, ...updates } : chat));
+  };
+
+  // Also becomes the persona for chats started later, so a favourite only has to be picked once.
+  const selectNewChatPersona = (personaId: string | null) => {
+    setAndSaveNewChatPersonaId(personaId);
+    if (currentChatId) {
+      updateChatOrganization(currentChatId, { personaId });
+    }
+  };
+
+  const createPersona = () => {
+    setPersonas(prev => [...prev, { id: `persona-${Date.now()}`, name: 'New persona', instructions: '' }]);
+  };
+
+  const updatePersona = (personaId: string, updates: Partial<Omit<Persona, 'id'>>) => {
+    setPersonas(prev => prev.map(persona => persona.id === personaId ? { ...persona, ...updates } : persona));
+  };
+
+  // Chats that used it, and any instructions overrides they have, are kept.
+  const deletePersona = (personaId: string) => {
+    setPersonas(prev => prev.filter(persona => persona.id !== personaId));
+    setAllChats(prevChats => prevChats.map(chat => chat.personaId === personaId ? { ...chat, personaId: null } : chat));
+    if (newChatPersonaId === personaId) {
+      setAndSaveNewChatPersonaId(null);
+    }
+  };
+
+  const createChatFolder = (name: string) => {
+    setChatFolders(prev => [...prev, { id: `folder-${Date.now()}`, name }]);
+  };
+
+  const updateChatFolder = (folderId: string, updates: Partial<Omit<ChatFolder, 'id'>>) => {
+    setChatFolders(prev => prev.map(folder => folder.id === folderId ? { ...folder, ...updates } : folder));
+  };
+
+  // Chats in the folder are kept and go back to the date groups.
+  const deleteChatFolder = (folderId: string) => {
+    setChatFolders(prev => prev.filter(folder => folder.id !== folderId));
+    setAllChats(prevChats => prevChats.map(chat => chat.folderId === folderId ? { ...chat, folderId: null } : chat));
+  };
+
+  const getChatLabel = (chat: StoredChat): string =>
+    chat.title === "New Chat" ? `Chat with ${getFriendlyModelName(getChatModel(chat, defaultChatModel))}` : chat.title;
+
+  const handleExportCurrentChat = (format: ChatExportFormat) => {
+    const chat = allChats.find(c => c.id === currentChatId);
+    if (chat) {
+      downloadChatExport(chat, format);
+    }
+  };
+
+  const handleExportBackup = () => {
+    const dateStamp = new Date().toISOString().slice(0, 10);
+    downloadFile(`neuramorphosis-backup-${dateStamp}.json`, exportChatsAsJson(allChats), 'application/json;charset=utf-8');
+  };
+
+  // Throws if the file is not a valid export; the settings page shows the message.
+  const handleRestoreBackup = (archiveJson: string): ChatImportResult => {
+    const importedChats = parseChatArchive(archiveJson).map(ensureMessageTree);
+    const result = mergeImportedChats(allChats, importedChats);
+    setAllChats(result.chats);
+    return result;
+  };
+
+  const existingChatIds = useMemo(() => new Set(allChats.map(chat => chat.id)), [allChats]);
+
+  const handleImportConversations = (importedChats: StoredChat[]) => {
+    setAllChats(prevChats => {
+      const prevIds = new Set(prevChats.map(chat => chat.id));
+      const newChats = importedChats.filter(chat => !prevIds.has(chat.id));
+      return [...prevChats, ...newChats].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    });
   };
 
   const currentChatTitle = useMemo(() => {
@@ -506,36 +1189,54 @@ export const App: React.FC = () => {
           >
             + New Chat
           </button>
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--text-placeholder)] pointer-events-none" aria-hidden="true" />
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+              placeholder="Search all chats"
+              className="w-full bg-[var(--background)] border border-[var(--border-color)] rounded-lg py-2 pl-8 pr-2.5 text-sm text-[var(--text-primary)] placeholder:text-[var(--text-placeholder)] focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+              aria-label="Search all chats"
+            />
+          </div>
           <nav className="flex-grow overflow-y-auto space-y-1 pr-1" style={{ scrollbarColor: 'var(--primary) var(--surface-1)', scrollbarWidth: 'thin' }}>
-            {allChats.map(chat => (
-              <div
-                key={chat.id}
-                className={`flex items-center justify-between rounded-md cursor-pointer group transition-colors duration-150
-                  ${currentChatId === chat.id
-                    ? 'bg-[var(--surface-active)] text-[var(--text-primary)] border-l-4 border-[var(--primary)] py-2 pr-2 pl-1.5 sm:py-2.5 sm:pr-2.5 sm:pl-1.5'
-                    : 'p-2 sm:p-2.5 hover:bg-[var(--surface-3)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] border-l-4 border-transparent'
-                  }`}
-                onClick={() => switchChat(chat.id)}
-                role="button"
-                tabIndex={0}
-                onKeyDown={(e) => e.key === 'Enter' && switchChat(chat.id)}
-                aria-current={currentChatId === chat.id ? "page" : undefined}
-              >
-                <span className="truncate text-sm">{chat.title === "New Chat" ? `Chat with ${getFriendlyModelName(currentChatModel)}` : chat.title}</span>
-                {currentChatId === chat.id && (
-                  <button
-                    onClick={(e) => { e.stopPropagation(); deleteChat(chat.id); }}
-                    className="ml-2 p-1 opacity-60 group-hover:opacity-100 hover:text-red-400 focus:text-red-400 rounded-full hover:bg-[var(--surface-active)] focus:outline-none focus:ring-1 focus:ring-red-500"
-                    aria-label={`Delete chat: ${chat.title}`}
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
-                )}
-              </div>
-            ))}
+            {searchQuery.trim() !== '' ? (
+              <ChatSearchResults query={searchQuery} results={searchResults} onSelectResult={handleSelectSearchResult} />
+            ) : (
+              <ChatList
+                chats={allChats}
+                folders={chatFolders}
+                currentChatId={currentChatId}
+                getChatLabel={getChatLabel}
+                onSelectChat={switchChat}
+                trashRetentionDays={trashRetentionDays}
+                onUpdateChat={updateChatOrganization}
+                onRenameChat={renameChat}
+                onDuplicateChat={duplicateChat}
+                onDeleteChats={moveChatsToTrash}
+                onRestoreChats={restoreChatsFromTrash}
+                onPermanentlyDeleteChats={permanentlyDeleteChats}
+                onCreateFolder={createChatFolder}
+                onUpdateFolder={updateChatFolder}
+                onDeleteFolder={deleteChatFolder}
+              />
+            )}
           </nav>
 
-          <div className="mt-auto pt-3">
+          <div className="mt-auto pt-3 space-y-1">
+            <button
+              onClick={() => {
+                setIsImportModalOpen(true);
+                if (isSidebarOpen) setIsSidebarOpen(false);
+              }}
+              className="w-full flex items-center justify-start text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--surface-3)] p-2.5 rounded-md transition-colors duration-150 focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+              aria-label="Import conversations from other assistants"
+            >
+              <Upload className="w-5 h-5 mr-3 text-[var(--primary)]" strokeWidth={1.5} />
+              <span>Import Conversations</span>
+            </button>
             <button
               onClick={() => {
                 setCurrentView('settings');
@@ -547,6 +1248,16 @@ export const App: React.FC = () => {
               <SettingsIcon className="w-5 h-5 mr-3 text-[var(--primary)]" strokeWidth={1.5} />
               <span>App Settings</span>
             </button>
+            {authStatus?.user && authStatus.mode !== 'none' && (
+              <button
+                onClick={handleSignOut}
+                className="w-full flex items-center justify-start text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--surface-3)] p-2.5 rounded-md transition-colors duration-150 focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+                aria-label={`Sign out ${authStatus.user.id}`}
+              >
+                <LogOut className="w-5 h-5 mr-3 text-[var(--primary)]" strokeWidth={1.5} />
+                <span className="truncate">Sign out ({authStatus.user.id})</span>
+              </button>
+            )}
           </div>
 
           <div className="text-xs text-center text-[var(--text-placeholder)] pt-2">
@@ -556,17 +1267,59 @@ export const App: React.FC = () => {
       )}
 
       <main className={`flex-1 flex flex-col bg-transparent h-screen w-full ${currentView === 'summarizer' ? 'overflow-y-auto' : 'relative'}`}>
+        {storageError && (
+          <div className="flex items-start justify-between gap-3 bg-red-900/30 border-b border-red-500/40 text-red-300 text-sm px-4 py-2.5 flex-shrink-0" role="alert">
+            <span><strong>Storage error:</strong> {storageError}</span>
+            <button
+              onClick={() => setStorageError(null)}
+              className="p-0.5 rounded-full hover:bg-red-900/40 focus:outline-none focus:ring-1 focus:ring-red-500 flex-shrink-0"
+              aria-label="Dismiss storage error"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
         {currentView === 'chat' && (
           <>
             <header className="bg-[var(--surface-1)] backdrop-blur-xl border-b border-[var(--border-color)] p-3 sm:p-4 flex items-center justify-between z-10 h-[60px] flex-shrink-0"> 
               <button onClick={() => setIsSidebarOpen(true)} className="md:hidden p-2 -ml-2 rounded-full hover:bg-[var(--surface-3)] focus:outline-none focus:ring-1 focus:ring-[var(--ring)]">
                 <Menu className="w-6 h-6" />
               </button>
-              <h2 className="text-lg sm:text-xl font-semibold text-[var(--text-primary)] truncate ml-2 md:ml-0">
-                {currentChatTitle}
-              </h2>
-              <div className="w-6 h-6 md:hidden"></div> 
-              <div className="hidden md:block w-0"></div> 
+              <div className="flex items-center gap-2 sm:gap-3 min-w-0 ml-2 md:ml-0">
+                <h2 className="text-lg sm:text-xl font-semibold text-[var(--text-primary)] truncate">
+                  {currentChatTitle}
+                </h2>
+                {currentChat && (
+                  <ChatInstructionsMenu
+                    chat={currentChat}
+                    personas={personas}
+                    onUpdateChat={(updates) => updateChatOrganization(currentChat.id, updates)}
+                    disabled={isLoading}
+                  />
+                )}
+              </div>
+              <div className="flex items-center gap-2 sm:gap-3">
+                {currentChat && (
+                  <ChatModelMenu
+                    models={availableModels}
+                    currentModel={currentChatModel}
+                    onSelectModel={(model) => updateChatOrganization(currentChat.id, { model })}
+                    disabled={isLoading}
+                  />
+                )}
+                {currentChat && (
+                  <ChatParamsMenu
+                    chatParams={currentChat.generationParams}
+                    globalParams={generationParams}
+                    onSetChatParams={(params) => updateChatOrganization(currentChat.id, { generationParams: params })}
+                    disabled={isLoading}
+                  />
+                )}
+                {!isEffectivelyNewChat && (
+                  <ContextMeter usedTokens={contextTokens} limitTokens={contextLimit} isCompacting={isCompactingContext} />
+                )}
+                <ChatExportMenu onExport={handleExportCurrentChat} disabled={isEffectivelyNewChat || isLoading} />
+              </div>
             </header>
 
             <div className="flex-1 overflow-y-auto py-4 pb-24" role="log">
@@ -575,12 +1328,35 @@ export const App: React.FC = () => {
                   <NewChatLandingPage
                       onPromptClick={handleSendMessage}
                       onOpenSummarizeModal={openSummarizeModal}
+                      personas={personas}
+                      selectedPersonaId={currentChat?.personaId ?? null}
+                      onSelectPersona={selectNewChatPersona}
                   />
                 ) : (
                   <>
-                    {messages.map((msg) => (
-                      <ChatMessageItem key={msg.id} message={msg} />
-                    ))}
+                    {activeMessages.map((msg) => {
+                      const siblings = getSiblings(messages, msg);
+                      const isWelcomeMessage = msg.sender === Sender.AI && msg.text.startsWith(INITIAL_AI_WELCOME_TEXT_BASE) && !msg.parentId;
+                      return (
+                        <React.Fragment key={msg.id}>
+                          {modelChanges.has(msg.id) && <ModelChangeDivider model={modelChanges.get(msg.id)!} />}
+                          <ChatMessageItem
+                            message={msg}
+                            siblingIndex={siblings.findIndex(sibling => sibling.id === msg.id)}
+                            siblingCount={siblings.length}
+                            onSelectSibling={(offset) => handleSelectSibling(msg.id, offset)}
+                            onRegenerate={msg.sender === Sender.AI && !isWelcomeMessage && !msg.isError ? () => handleRegenerate(msg.id) : undefined}
+                            onRetry={msg.isError ? () => handleRetry(msg.id) : undefined}
+                            onEdit={msg.sender === Sender.User ? (newText) => handleEditMessage(msg.id, newText) : undefined}
+                            areActionsDisabled={isLoading}
+                            isHighlighted={msg.id === highlightedMessageId}
+                          />
+                          {msg.id === currentContextSummary?.throughMessageId && (
+                            <ContextSummaryNotice summary={currentContextSummary} />
+                          )}
+                        </React.Fragment>
+                      );
+                    })}
                   </>
                 )}
                 {error && !isEffectivelyNewChat && (
@@ -588,6 +1364,9 @@ export const App: React.FC = () => {
                     <strong>Error:</strong> {error}
                   </div>
                 )}
+                {rateLimit && !isEffectivelyNewChat && (
+                  <RateLimitNotice limit={rateLimit.limit} retryAt={rateLimit.retryAt} onExpired={clearRateLimit} />
+                )}
                 <div ref={chatEndRef} />
               </div>
             </div>
@@ -603,7 +1382,9 @@ export const App: React.FC = () => {
               <div className="w-[95%] sm:w-4/5 max-w-4xl mx-auto pointer-events-auto">
                 <ChatInput
                   onSendMessage={handleSendMessage}
+                  onStopGenerating={handleStopGenerating}
                   isLoading={isLoading}
+                  supportedAttachmentTypes={getModelInfo(currentChatModel)?.attachmentMimeTypes || []}
                 />
               </div>
             </div>
@@ -612,11 +1393,11 @@ export const App: React.FC = () => {
         {currentView === 'settings' && (
           <SettingsPage
             onClose={() => setCurrentView('chat')}
-            thinkingBudget={thinkingBudget}
-            onSetThinkingBudget={setThinkingBudget}
-            availableModels={AVAILABLE_CHAT_MODELS}
-            currentModel={currentChatModel}
-            onSetModel={setCurrentChatModel}
+            thinkingLevel={thinkingLevel}
+            onSetThinkingLevel={setAndSaveThinkingLevel}
+            availableModels={availableModels}
+            currentModel={defaultChatModel}
+            onSetModel={setAndSaveDefaultChatModel}
             baseTheme={baseTheme}
             onSetBaseTheme={setBaseTheme}
             accentTheme={accentTheme}
@@ -626,6 +1407,23 @@ export const App: React.FC = () => {
             targetLanguage={targetLanguage}
             onSetTargetLanguage={setAndSaveTargetLanguage}
             supportedLanguages={SUPPORTED_LANGUAGES}
+            chatCount={allChats.length}
+            onExportBackup={handleExportBackup}
+            onRestoreBackup={handleRestoreBackup}
+            onOpenImportConversations={() => setIsImportModalOpen(true)}
+            trashRetentionDays={trashRetentionDays}
+            onSetTrashRetentionDays={setAndSaveTrashRetentionDays}
+            chats={allChats}
+            modelPrices={modelPrices}
+            onSetModelPrices={setAndSaveModelPrices}
+            contextTokenLimit={contextTokenLimit}
+            onSetContextTokenLimit={setAndSaveContextTokenLimit}
+            personas={personas}
+            onCreatePersona={createPersona}
+            onUpdatePersona={updatePersona}
+            onDeletePersona={deletePersona}
+            generationParams={generationParams}
+            onSetGenerationParams={setAndSaveGenerationParams}
           />
         )}
         {currentView === 'summarizer' && textToSummarizeForEditor && (
@@ -633,6 +1431,7 @@ export const App: React.FC = () => {
             originalText={textToSummarizeForEditor}
             onClose={handleCloseSummarizationEditor}
             currentChatModelName={currentChatModel}
+            targetLanguageName={targetLanguage !== DEFAULT_TARGET_LANGUAGE ? getLanguageName(targetLanguage) : null}
           />
         )}
       </main>
@@ -643,6 +1442,24 @@ export const App: React.FC = () => {
           onSummarizeSubmit={handleOpenSummarizationEditor}
         />
       )}
+      {isImportModalOpen && (
+        <ImportConversationsModal
+          isOpen={isImportModalOpen}
+          onClose={() => setIsImportModalOpen(false)}
+          existingChatIds={existingChatIds}
+          onImport={handleImportConversations}
+        />
+      )}
+      {trashUndo && (
+        <UndoToast
+          message={trashUndo.message}
+          onUndo={() => restoreChatsFromTrash(trashUndo.chatIds)}
+          onDismiss={dismissTrashUndo}
+        />
+      )}
+      {isSignInRequired && (
+        <SignInScreen mode={authStatus?.mode ?? 'token'} onSignedIn={handleSignedIn} />
+      )}
     </div>
   );
 };
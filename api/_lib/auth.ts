@@ -0,0 +1,272 @@
+import type { AuthMode, AuthStatus, ProxyErrorBody } from "../../types";
+import { RequestValidationError, readJsonBody } from "./validation";
+
+// Who may use the proxy, set with AUTH_MODE:
+//   none     (default) anyone; every request counts as the user "anonymous"
+//   token    shared-secret bearer tokens, AUTH_TOKENS="alice:token1,bob:token2"
+//   session  sign in with a password from AUTH_USERS="alice:password1,bob:password2" to get
+//            a session cookie signed with AUTH_SESSION_SECRET, valid for
+//            AUTH_SESSION_TTL_HOURS (default 168)
+//   jwt      bearer JWTs signed by an identity provider, verified with the PEM public key
+//            in AUTH_JWT_PUBLIC_KEY (AUTH_JWT_ALGORITHM RS256 or ES256, default RS256), and
+//            optionally required to carry AUTH_JWT_ISSUER and AUTH_JWT_AUDIENCE; the user is
+//            the token's `sub`
+// A misconfigured mode rejects every request rather than falling back to open access.
+
+export interface AuthUser {
+    id: string;
+}
+
+const ANONYMOUS_USER: AuthUser = { id: 'anonymous' };
+const SESSION_COOKIE = 'nm_session';
+const DEFAULT_SESSION_TTL_HOURS = 168;
+
+const AUTH_MODES: AuthMode[] = ['none', 'token', 'session', 'jwt'];
+
+const readAuthMode = (): AuthMode | null => {
+    const mode = (process.env.AUTH_MODE || 'none').toLowerCase() as AuthMode;
+    if (AUTH_MODES.includes(mode)) return mode;
+    console.error(`AUTH_MODE "${process.env.AUTH_MODE}" is not one of ${AUTH_MODES.join(', ')}; rejecting all requests`);
+    return null;
+};
+
+// An invalid mode is reported as 'token' so the client asks for a token, which is then refused.
+export const getAuthMode = (): AuthMode => readAuthMode() ?? 'token';
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+// --- Encoding helpers --------------------------------------------------------
+
+const encoder = new TextEncoder();
+
+const base64UrlEncode = (bytes: Uint8Array): string =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlDecode = (text: string) =>
+    Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+// Compares in time independent of where the strings differ, so secrets can't be guessed
+// one character at a time.
+function constantTimeEqual(a: string, b: string): boolean {
+    const bytesA = encoder.encode(a);
+    const bytesB = encoder.encode(b);
+    let difference = bytesA.length ^ bytesB.length;
+    for (let i = 0; i < bytesA.length; i++) {
+        difference |= bytesA[i] ^ (bytesB[i % Math.max(bytesB.length, 1)] ?? 0);
+    }
+    return difference === 0;
+}
+
+// "name:secret,name:secret" pairs; the secret may itself contain colons.
+function parseCredentialPairs(value: string | undefined): { name: string; secret: string }[] {
+    return (value || '').split(',').flatMap(entry => {
+        const separator = entry.indexOf(':');
+        if (separator <= 0) return [];
+        const name = entry.slice(0, separator).trim();
+        const secret = entry.slice(separator + 1).trim();
+        return name && secret ? [{ name, secret }] : [];
+    });
+}
+
+const getBearerToken = (req: Request): string | null => {
+    const match = req.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+};
+
+const getCookie = (req: Request, name: string): string | null => {
+    for (const cookie of (req.headers.get('Cookie') || '').split(';')) {
+        const [cookieName, ...rest] = cookie.trim().split('=');
+        if (cookieName === name) return rest.join('=');
+    }
+    return null;
+};
+
+// --- Shared-secret tokens ----------------------------------------------------
+
+function authenticateToken(req: Request): AuthUser | null {
+    const token = getBearerToken(req);
+    if (!token) return null;
+    // Every entry is compared, so the time taken doesn't reveal which one matched.
+    let user: AuthUser | null = null;
+    for (const { name, secret } of parseCredentialPairs(process.env.AUTH_TOKENS)) {
+        if (constantTimeEqual(token, secret) && !user) user = { id: name };
+    }
+    return user;
+}
+
+// --- Signed session cookies --------------------------------------------------
+
+let sessionKey: Promise<CryptoKey> | null = null;
+
+function getSessionKey(): Promise<CryptoKey> | null {
+    const secret = process.env.AUTH_SESSION_SECRET;
+    if (!secret) return null;
+    sessionKey ??= crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+    return sessionKey;
+}
+
+const getSessionTtlSeconds = () => {
+    const hours = Number(process.env.AUTH_SESSION_TTL_HOURS);
+    return Math.round((Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SESSION_TTL_HOURS) * 3600);
+};
+
+// The cookie value is base64url(JSON payload) + "." + base64url(HMAC of that string).
+async function authenticateSession(req: Request): Promise<AuthUser | null> {
+    const keyPromise = getSessionKey();
+    const cookie = getCookie(req, SESSION_COOKIE);
+    if (!keyPromise || !cookie) return null;
+    const [payloadPart, signaturePart] = cookie.split('.');
+    if (!payloadPart || !signaturePart) return null;
+    try {
+        const isValid = await crypto.subtle.verify('HMAC', await keyPromise, base64UrlDecode(signaturePart), encoder.encode(payloadPart));
+        if (!isValid) return null;
+        const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(payloadPart)));
+        if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) return null;
+        // Sessions end when their user is removed from AUTH_USERS.
+        return parseCredentialPairs(process.env.AUTH_USERS).some(({ name }) => name === payload.sub) ? { id: payload.sub } : null;
+    } catch (e) {
+        return null;
+    }
+}
+
+// Secure only over HTTPS, so sign-in also works on http://localhost.
+const cookieAttributes = (req: Request, maxAgeSeconds: number) =>
+    `Path=/api; HttpOnly; SameSite=Strict; Max-Age=${maxAgeSeconds}${new URL(req.url).protocol === 'https:' ? '; Secure' : ''}`;
+
+async function createSessionCookie(req: Request, userId: string): Promise<string> {
+    const ttlSeconds = getSessionTtlSeconds();
+    const payloadPart = base64UrlEncode(encoder.encode(JSON.stringify({ sub: userId, exp: Math.floor(Date.now() / 1000) + ttlSeconds })));
+    const signature = await crypto.subtle.sign('HMAC', await getSessionKey()!, encoder.encode(payloadPart));
+    return `${SESSION_COOKIE}=${payloadPart}.${base64UrlEncode(new Uint8Array(signature))}; ${cookieAttributes(req, ttlSeconds)}`;
+}
+
+async function handleSignIn(req: Request): Promise<Response> {
+    if (getAuthMode() !== 'session') {
+        return jsonResponse({ error: 'This server does not use password sign-in' }, 400);
+    }
+    if (!getSessionKey()) {
+        console.error('AUTH_MODE is "session" but AUTH_SESSION_SECRET is not set');
+        return jsonResponse({ error: 'Sign-in is not configured on the server' }, 500);
+    }
+    let credentials: { username?: unknown; password?: unknown } | null;
+    try {
+        credentials = await readJsonBody(req) as typeof credentials;
+    } catch (error) {
+        if (!(error instanceof RequestValidationError)) throw error;
+        const body: ProxyErrorBody = { error: error.message, code: error.code };
+        return jsonResponse(body, error.status);
+    }
+    const { username, password } = credentials ?? {};
+    // Every entry is compared, so the time taken doesn't reveal whether the user exists.
+    let userId: string | null = null;
+    for (const { name, secret } of parseCredentialPairs(process.env.AUTH_USERS)) {
+        const nameMatches = constantTimeEqual(String(username ?? ''), name);
+        const passwordMatches = constantTimeEqual(String(password ?? ''), secret);
+        if (nameMatches && passwordMatches && !userId) userId = name;
+    }
+    if (!userId) {
+        console.warn(`Failed sign-in attempt for "${String(username ?? '')}"`);
+        return jsonResponse({ error: 'Incorrect username or password' }, 401);
+    }
+    const status: AuthStatus = { mode: 'session', user: { id: userId } };
+    return jsonResponse(status, 200, { 'Set-Cookie': await createSessionCookie(req, userId) });
+}
+
+function handleSignOut(req: Request): Response {
+    const status: AuthStatus = { mode: getAuthMode(), user: null };
+    return jsonResponse(status, 200, { 'Set-Cookie': `${SESSION_COOKIE}=; ${cookieAttributes(req, 0)}` });
+}
+
+// --- JWTs ----------------------------------------------------------------------
+
+const JWT_ALGORITHMS = {
+    RS256: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verifyParams: { name: 'RSASSA-PKCS1-v1_5' } },
+    ES256: { importParams: { name: 'ECDSA', namedCurve: 'P-256' }, verifyParams: { name: 'ECDSA', hash: 'SHA-256' } },
+} as const;
+
+type JwtAlgorithm = keyof typeof JWT_ALGORITHMS;
+
+const getJwtAlgorithm = (): JwtAlgorithm => (process.env.AUTH_JWT_ALGORITHM === 'ES256' ? 'ES256' : 'RS256');
+
+let jwtKey: Promise<CryptoKey> | null = null;
+
+function getJwtKey(): Promise<CryptoKey> | null {
+    const pem = process.env.AUTH_JWT_PUBLIC_KEY;
+    if (!pem) return null;
+    if (!jwtKey) {
+        // Environment variables often carry the PEM with escaped newlines.
+        const base64 = pem.replace(/\\n/g, '\n').replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '').replace(/\s+/g, '');
+        const der = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+        jwtKey = crypto.subtle.importKey('spki', der, JWT_ALGORITHMS[getJwtAlgorithm()].importParams, false, ['verify']);
+    }
+    return jwtKey;
+}
+
+async function authenticateJwt(req: Request): Promise<AuthUser | null> {
+    const token = getBearerToken(req);
+    const keyPromise = getJwtKey();
+    if (!token || !keyPromise) return null;
+    const [headerPart, payloadPart, signaturePart] = token.split('.');
+    if (!headerPart || !payloadPart || !signaturePart) return null;
+    try {
+        const decodeJson = (part: string) => JSON.parse(new TextDecoder().decode(base64UrlDecode(part)));
+        const algorithm = getJwtAlgorithm();
+        // The algorithm is fixed by configuration, never taken from the token.
+        if (decodeJson(headerPart).alg !== algorithm) return null;
+        const isValid = await crypto.subtle.verify(
+            JWT_ALGORITHMS[algorithm].verifyParams,
+            await keyPromise,
+            base64UrlDecode(signaturePart),
+            encoder.encode(`${headerPart}.${payloadPart}`),
+        );
+        if (!isValid) return null;
+
+        const claims = decodeJson(payloadPart);
+        const now = Date.now() / 1000;
+        if (typeof claims.sub !== 'string' || !claims.sub) return null;
+        if (typeof claims.exp === 'number' && claims.exp < now) return null;
+        if (typeof claims.nbf === 'number' && claims.nbf > now) return null;
+        if (process.env.AUTH_JWT_ISSUER && claims.iss !== process.env.AUTH_JWT_ISSUER) return null;
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (process.env.AUTH_JWT_AUDIENCE && !audiences.includes(process.env.AUTH_JWT_AUDIENCE)) return null;
+        return { id: claims.sub };
+    } catch (e) {
+        return null;
+    }
+}
+
+// --- Entry points ------------------------------------------------------------
+
+export async function authenticate(req: Request): Promise<AuthUser | null> {
+    switch (readAuthMode()) {
+        case null:
+            return null;
+        case 'none':
+            return ANONYMOUS_USER;
+        case 'token':
+            return authenticateToken(req);
+        case 'session':
+            return authenticateSession(req);
+        case 'jwt':
+            return authenticateJwt(req);
+    }
+}
+
+export const unauthorizedResponse = () => {
+    const body: ProxyErrorBody = { error: 'Sign in to use this app', code: 'unauthorized' };
+    return jsonResponse(body, 401, { 'WWW-Authenticate': 'Bearer' });
+};
+
+// GET ?resource=auth reports the mode and current user; POST ?resource=sign-in and
+// ?resource=sign-out manage session cookies. Returns null for any other request.
+export async function handleAuthRequest(req: Request, resource: string | null): Promise<Response | null> {
+    if (req.method === 'GET' && resource === 'auth') {
+        const user = await authenticate(req);
+        const status: AuthStatus = { mode: getAuthMode(), user };
+        return jsonResponse(status, 200, { 'Cache-Control': 'no-store' });
+    }
+    if (req.method === 'POST' && resource === 'sign-in') return handleSignIn(req);
+    if (req.method === 'POST' && resource === 'sign-out') return handleSignOut(req);
+    return null;
+}
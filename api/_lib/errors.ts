@@ -0,0 +1,67 @@
+import { ProxyErrorCode, TRANSIENT_ERROR_CODES } from "../../types";
+import { retryWithBackoff } from "../../services/retryService";
+import { ProviderError } from "./providers";
+import { RequestValidationError } from "./validation";
+
+// Maps a failure to the status and ProxyErrorCode the client gets. Provider failures are
+// classified by their upstream status. The provider's own auth failures become 502: a
+// 401 would tell the client to sign in again, which would not help.
+
+export interface ClassifiedError {
+    status: number;
+    code: ProxyErrorCode;
+    message: string;
+    path?: string;
+}
+
+const SAFETY_PATTERN = /\b(safety|content[ _-]?policy|content[ _-]?filter)\b/i;
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 4000;
+
+export function classifyError(error: any): ClassifiedError {
+    const message: string = error?.message || 'An internal server error occurred';
+    if (error instanceof RequestValidationError) {
+        return { status: error.status, code: error.code, message, path: error.path };
+    }
+    const status = error instanceof ProviderError ? error.status : undefined;
+    switch (status) {
+        case 400:
+        case 404:
+        case 413:
+        case 422:
+            return SAFETY_PATTERN.test(message)
+                ? { status: 400, code: 'safety-blocked', message }
+                : { status: 400, code: 'invalid-request', message };
+        case 401:
+        case 403:
+            return { status: 502, code: 'provider-auth', message };
+        case 429:
+            return { status: 429, code: 'quota-exceeded', message };
+        case 502:
+        case 504:
+            return { status: 502, code: 'network', message };
+        case 503:
+        case 529: // Anthropic's "overloaded"
+            return { status: 503, code: 'overloaded', message };
+        default:
+            return { status: status && status >= 500 ? 502 : 500, code: 'internal-error', message };
+    }
+}
+
+export const isTransientError = (error: unknown): boolean => TRANSIENT_ERROR_CODES.includes(classifyError(error).code);
+
+// Runs `operation` again after a transient failure. Only for work that hasn't sent
+// anything to the client yet: a stream is never restarted once it has begun.
+export function withRetry<T>(operation: () => Promise<T>, signal: AbortSignal): Promise<T> {
+    return retryWithBackoff(operation, {
+        maxAttempts: MAX_ATTEMPTS,
+        baseDelayMs: BASE_DELAY_MS,
+        maxDelayMs: MAX_DELAY_MS,
+        isTransient: isTransientError,
+        signal,
+        onRetry: (error, delayMs, attempt) => console.warn(
+            `Transient provider error, retrying in ${delayMs}ms (attempt ${attempt} of ${MAX_ATTEMPTS})`, classifyError(error).message),
+    });
+}
@@ -0,0 +1,49 @@
+import type { GenerationParams, ModelInfo } from "../../types";
+
+// Sampling parameters arrive from the browser, so they are clamped to what each model
+// accepts before reaching the API: an out-of-range value would otherwise fail the
+// whole request. Files under api/_lib are not deployed as functions of their own.
+
+const MAX_STOP_SEQUENCES = 5;
+
+const clampNumber = (value: unknown, min: number, max: number, isInteger = false): number | undefined => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+    const clamped = Math.min(Math.max(value, min), max);
+    return isInteger ? Math.round(clamped) : clamped;
+};
+
+// Unknown or invalid fields are dropped rather than rejected. The model's registry
+// defaults fill in whatever the request leaves unset.
+export function clampGenerationParams(model: ModelInfo, params: unknown): GenerationParams {
+    const input: Record<string, unknown> = { ...model.defaultParams, ...(params && typeof params === 'object' ? params : {}) };
+    const limits = model.paramLimits;
+    const result: GenerationParams = {};
+
+    const temperature = clampNumber(input.temperature, 0, limits.maxTemperature);
+    if (temperature !== undefined) result.temperature = temperature;
+    const topP = clampNumber(input.topP, 0, 1);
+    if (topP !== undefined) result.topP = topP;
+    const topK = clampNumber(input.topK, 1, limits.maxTopK, true);
+    if (topK !== undefined) result.topK = topK;
+    const maxOutputTokens = clampNumber(input.maxOutputTokens, 1, model.maxOutputTokens, true);
+    if (maxOutputTokens !== undefined) result.maxOutputTokens = maxOutputTokens;
+    const candidateCount = clampNumber(input.candidateCount, 1, limits.maxCandidateCount, true);
+    if (candidateCount !== undefined) result.candidateCount = candidateCount;
+
+    if (Array.isArray(input.stopSequences)) {
+        const stopSequences = input.stopSequences
+            .filter((sequence): sequence is string => typeof sequence === 'string' && sequence !== '')
+            .slice(0, MAX_STOP_SEQUENCES);
+        if (stopSequences.length > 0) result.stopSequences = stopSequences;
+    }
+    return result;
+}
+
+// -1 asks the model to pick its own budget. Models whose budget can't be set get none.
+export function clampThinkingConfig(model: ModelInfo, thinkingConfig: unknown): { thinkingBudget: number; includeThoughts?: boolean } | undefined {
+    if (!model.thinking || !thinkingConfig || typeof thinkingConfig !== 'object') return undefined;
+    const { thinkingBudget: budget, includeThoughts } = thinkingConfig as { thinkingBudget?: unknown; includeThoughts?: unknown };
+    const thinkingBudget = budget === -1 ? -1 : clampNumber(budget, model.thinking.minBudget, model.thinking.maxBudget, true);
+    if (thinkingBudget === undefined) return undefined;
+    return typeof includeThoughts === 'boolean' ? { thinkingBudget, includeThoughts } : { thinkingBudget };
+}
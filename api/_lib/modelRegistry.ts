@@ -0,0 +1,101 @@
+import type { ModelInfo, ModelRegistry } from "../../types";
+import { BUILT_IN_MODEL_REGISTRY } from "../../services/modelCatalog";
+import { getModelProvider, isProviderConfigured } from "./providers";
+
+// The models this deployment offers: the built-in catalog, adjusted by the optional
+// MODEL_REGISTRY environment variable, which holds JSON like
+//   { "models": [{ "id": "gemini-2.5-pro", "pricing": { ... } }, { ...a full new entry }],
+//     "hiddenModels": ["gemini-2.5-flash-lite"], "defaultModel": "...", "utilityModel": "..." }
+// Entries for known IDs are merged over the built-in ones; unknown IDs must be complete.
+// Models whose provider has no credentials configured are left out.
+
+interface RegistryOverrides {
+    models?: Partial<ModelInfo>[];
+    hiddenModels?: string[];
+    defaultModel?: string;
+    utilityModel?: string;
+}
+
+const isCompleteModel = (model: Partial<ModelInfo>): model is ModelInfo =>
+    typeof model.id === 'string'
+    && typeof model.name === 'string'
+    && typeof model.contextWindow === 'number'
+    && typeof model.maxOutputTokens === 'number'
+    && model.thinking !== undefined
+    && Array.isArray(model.attachmentMimeTypes)
+    && !!model.pricing
+    && !!model.defaultParams
+    && !!model.paramLimits;
+
+// Every model the deployment knows of, including hidden ones, which may still serve as
+// the utility model.
+let knownModels: ModelInfo[] = BUILT_IN_MODEL_REGISTRY.models;
+
+function applyOverrides(base: ModelRegistry, overrides: RegistryOverrides): ModelRegistry {
+    const models = [...base.models];
+    for (const override of overrides.models || []) {
+        const existingIndex = models.findIndex(model => model.id === override.id);
+        if (existingIndex >= 0) {
+            models[existingIndex] = { ...models[existingIndex], ...override };
+        } else if (isCompleteModel(override)) {
+            models.push(override);
+        } else {
+            console.error(`MODEL_REGISTRY: ignoring incomplete entry for new model "${override.id}"`);
+        }
+    }
+    knownModels = models;
+
+    const hidden = new Set(overrides.hiddenModels || []);
+    const visibleModels = models.filter(model => !hidden.has(model.id));
+    if (visibleModels.length === 0) {
+        console.error('MODEL_REGISTRY: hides every model, ignoring hiddenModels');
+    }
+    const offeredModels = visibleModels.length > 0 ? visibleModels : models;
+    const isOffered = (id: string | undefined) => !!id && offeredModels.some(model => model.id === id);
+
+    return {
+        models: offeredModels,
+        defaultModel: isOffered(overrides.defaultModel) ? overrides.defaultModel! : isOffered(base.defaultModel) ? base.defaultModel : offeredModels[0].id,
+        // May be a model that is hidden from the chat menu.
+        utilityModel: overrides.utilityModel || base.utilityModel,
+    };
+}
+
+// With no provider configured at all every model is kept, so requests fail with a
+// message saying what is missing rather than the model list coming back empty.
+function withConfiguredProviders(registry: ModelRegistry): ModelRegistry {
+    const isAvailable = (model: ModelInfo) => isProviderConfigured(getModelProvider(model));
+    const models = registry.models.filter(isAvailable);
+    if (models.length === 0) return registry;
+    const defaultModel = models.some(model => model.id === registry.defaultModel) ? registry.defaultModel : models[0].id;
+    const utilityModel = knownModels.find(model => model.id === registry.utilityModel);
+    return {
+        models,
+        defaultModel,
+        utilityModel: utilityModel && isAvailable(utilityModel) ? utilityModel.id : defaultModel,
+    };
+}
+
+let cachedRegistry: ModelRegistry | null = null;
+
+export function getModelRegistry(): ModelRegistry {
+    if (cachedRegistry) return cachedRegistry;
+    let registry = BUILT_IN_MODEL_REGISTRY;
+    if (process.env.MODEL_REGISTRY) {
+        try {
+            registry = applyOverrides(registry, JSON.parse(process.env.MODEL_REGISTRY));
+        } catch (error) {
+            console.error('MODEL_REGISTRY is not valid JSON, using the built-in models', error);
+        }
+    }
+    cachedRegistry = withConfiguredProviders(registry);
+    return cachedRegistry;
+}
+
+export const findModel = (modelId: unknown): ModelInfo | undefined =>
+    typeof modelId === 'string' ? getModelRegistry().models.find(model => model.id === modelId) : undefined;
+
+export const getUtilityModel = (): ModelInfo => {
+    const registry = getModelRegistry();
+    return knownModels.find(model => model.id === registry.utilityModel) || registry.models[0];
+};
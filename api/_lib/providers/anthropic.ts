@@ -0,0 +1,138 @@
+import type { ChatMessageHistoryItem } from "../../../types";
+import { attachmentAsText, isInlineDataPart, postJson, readServerSentEvents } from "./http";
+import { ChatProvider, ChatRequest, ProviderError, ProviderEvent, ThinkingConfig } from "./types";
+
+// Anthropic Messages API. It takes a single candidate, needs max_tokens on every request
+// and has no "let the model decide" thinking budget, so -1 leaves thinking off.
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const MIN_THINKING_BUDGET = 1024;
+
+type AnthropicContentBlock =
+    | { type: 'text'; text: string }
+    | { type: 'image' | 'document'; source: { type: 'base64'; media_type: string; data: string } };
+
+interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: AnthropicContentBlock[];
+}
+
+function toContentBlocks({ role, parts }: ChatMessageHistoryItem): AnthropicContentBlock[] {
+    const blocks: AnthropicContentBlock[] = [];
+    for (const part of parts) {
+        if (!isInlineDataPart(part)) {
+            // Empty text blocks are rejected.
+            if (part.text.trim()) blocks.push({ type: 'text', text: part.text });
+            continue;
+        }
+        const { mimeType, data } = part.inlineData;
+        if (role === 'user' && mimeType.startsWith('image/')) {
+            blocks.push({ type: 'image', source: { type: 'base64', media_type: mimeType, data } });
+        } else if (role === 'user' && mimeType === 'application/pdf') {
+            blocks.push({ type: 'document', source: { type: 'base64', media_type: mimeType, data } });
+        } else {
+            blocks.push({ type: 'text', text: attachmentAsText(part.inlineData) });
+        }
+    }
+    return blocks;
+}
+
+// Turns must alternate and start with the user, so adjacent turns of one role are merged
+// and anything before the first user turn (such as a welcome message) is dropped.
+function toAnthropicMessages(messages: ChatMessageHistoryItem[]): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+    for (const message of messages) {
+        const role = message.role === 'model' ? 'assistant' : 'user';
+        const content = toContentBlocks(message);
+        if (content.length === 0 || (result.length === 0 && role === 'assistant')) continue;
+        const previous = result[result.length - 1];
+        if (previous?.role === role) {
+            previous.content.push(...content);
+        } else {
+            result.push({ role, content });
+        }
+    }
+    return result;
+}
+
+// The budget must stay below max_tokens, which covers thinking and answer together.
+function toThinkingParam(thinking: ThinkingConfig | undefined, modelMaxTokens: number) {
+    if (!thinking || thinking.thinkingBudget <= 0) return undefined;
+    const budget = Math.min(Math.max(thinking.thinkingBudget, MIN_THINKING_BUDGET), modelMaxTokens - 1);
+    return budget >= MIN_THINKING_BUDGET ? { type: 'enabled', budget_tokens: budget } : undefined;
+}
+
+// Errors inside a stream carry a type instead of an HTTP status.
+const ERROR_STATUSES: Record<string, number> = {
+    invalid_request_error: 400,
+    authentication_error: 401,
+    permission_error: 403,
+    not_found_error: 404,
+    request_too_large: 413,
+    rate_limit_error: 429,
+    api_error: 500,
+    overloaded_error: 529,
+};
+
+const FINISH_REASONS: Record<string, string> = {
+    end_turn: 'STOP',
+    stop_sequence: 'STOP',
+    tool_use: 'STOP',
+    pause_turn: 'STOP',
+    max_tokens: 'MAX_TOKENS',
+    refusal: 'SAFETY',
+};
+
+async function* streamAnthropicChat(baseUrl: string, apiKey: string, { model, systemInstruction, messages, params, thinking, signal }: ChatRequest): AsyncGenerator<ProviderEvent> {
+    const answerTokens = params.maxOutputTokens ?? model.maxOutputTokens;
+    const thinkingParam = toThinkingParam(thinking, model.maxOutputTokens);
+    const body = {
+        model: model.id,
+        system: systemInstruction || undefined,
+        messages: toAnthropicMessages(messages),
+        max_tokens: Math.min(answerTokens + (thinkingParam?.budget_tokens || 0), model.maxOutputTokens),
+        stop_sequences: params.stopSequences,
+        stream: true,
+        thinking: thinkingParam,
+        // Sampling can't be adjusted while thinking is on.
+        ...(thinkingParam ? {} : { temperature: params.temperature, top_p: params.topP, top_k: params.topK }),
+    };
+    const response = await postJson(`${baseUrl}/v1/messages`, { 'x-api-key': apiKey, 'anthropic-version': ANTHROPIC_VERSION }, body, signal);
+
+    let promptTokens = 0;
+    let outputTokens = 0;
+    for await (const { data } of readServerSentEvents(response)) {
+        const event = JSON.parse(data);
+        switch (event.type) {
+            case 'message_start': {
+                const usage = event.message?.usage || {};
+                promptTokens = (usage.input_tokens || 0) + (usage.cache_read_input_tokens || 0) + (usage.cache_creation_input_tokens || 0);
+                break;
+            }
+            case 'content_block_delta':
+                if (event.delta?.type === 'text_delta' && event.delta.text) {
+                    yield { type: 'text-delta', text: event.delta.text };
+                } else if (event.delta?.type === 'thinking_delta' && event.delta.thinking && thinking?.includeThoughts !== false) {
+                    yield { type: 'thought-delta', text: event.delta.thinking };
+                }
+                break;
+            case 'message_delta':
+                if (event.delta?.stop_reason) {
+                    yield { type: 'finish', reason: FINISH_REASONS[event.delta.stop_reason] || event.delta.stop_reason.toUpperCase() };
+                }
+                // Thinking tokens are not reported separately, so they count as output.
+                outputTokens = event.usage?.output_tokens ?? outputTokens;
+                yield { type: 'usage', usage: { promptTokens, outputTokens, thoughtTokens: 0, totalTokens: promptTokens + outputTokens } };
+                break;
+            case 'error':
+                throw new ProviderError(event.error?.message || 'The model server reported an error', ERROR_STATUSES[event.error?.type]);
+        }
+    }
+}
+
+export function createAnthropicProvider(apiKey: string, baseUrl = 'https://api.anthropic.com'): ChatProvider {
+    const normalizedBaseUrl = baseUrl.replace(/\/+$/, '');
+    return {
+        streamChat: request => streamAnthropicChat(normalizedBaseUrl, apiKey, request),
+    };
+}
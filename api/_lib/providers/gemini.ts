@@ -0,0 +1,75 @@
+import { GoogleGenAI, Content, GenerateContentResponseUsageMetadata } from "@google/genai";
+import type { TokenUsage } from "../../../types";
+import { ChatProvider, ChatRequest, ProviderError, ProviderEvent } from "./types";
+
+// The client already sends history in Gemini's shape, so it is passed through as is.
+
+// Errors from the API client often carry the upstream JSON error body as their message.
+function getGeminiErrorMessage(error: any): string {
+    if (!error || !error.message) return 'An internal server error occurred';
+    try {
+        const parsedError = JSON.parse(error.message);
+        if (parsedError.error && parsedError.error.message) {
+            return parsedError.error.message;
+        }
+    } catch (e) {
+        // Not a JSON string, use the original message
+    }
+    return error.message;
+}
+
+function toTokenUsage(usageMetadata: GenerateContentResponseUsageMetadata): TokenUsage {
+    const promptTokens = usageMetadata.promptTokenCount || 0;
+    const outputTokens = usageMetadata.candidatesTokenCount || 0;
+    const thoughtTokens = usageMetadata.thoughtsTokenCount || 0;
+    return {
+        promptTokens,
+        outputTokens,
+        thoughtTokens,
+        totalTokens: usageMetadata.totalTokenCount || promptTokens + outputTokens + thoughtTokens,
+    };
+}
+
+async function* streamGeminiChat(ai: GoogleGenAI, { model, systemInstruction, messages, params, thinking, signal }: ChatRequest): AsyncGenerator<ProviderEvent> {
+    try {
+        const stream = await ai.models.generateContentStream({
+            model: model.id,
+            contents: messages as Content[],
+            config: { systemInstruction, thinkingConfig: thinking, ...params, abortSignal: signal },
+        });
+        for await (const chunk of stream) {
+            // With candidateCount > 1 a chunk can carry several candidates, each tagged
+            // with its index; alternates only forward their answer text.
+            for (const [position, candidate] of (chunk.candidates || []).entries()) {
+                const index = candidate.index ?? position;
+                for (const part of candidate.content?.parts || []) {
+                    if (!part.text) continue;
+                    if (index === 0) {
+                        yield { type: part.thought ? 'thought-delta' : 'text-delta', text: part.text };
+                    } else if (!part.thought) {
+                        yield { type: 'text-delta', text: part.text, candidate: index };
+                    }
+                }
+                if (index === 0 && candidate.finishReason) {
+                    yield { type: 'finish', reason: candidate.finishReason };
+                }
+            }
+            if (chunk.usageMetadata) {
+                yield { type: 'usage', usage: toTokenUsage(chunk.usageMetadata) };
+            }
+            if (chunk.promptFeedback?.blockReason) {
+                yield { type: 'finish', reason: chunk.promptFeedback.blockReason, isPromptBlocked: true };
+            }
+        }
+    } catch (error: any) {
+        if (signal.aborted) throw error;
+        throw new ProviderError(getGeminiErrorMessage(error), typeof error?.status === 'number' ? error.status : undefined);
+    }
+}
+
+export function createGeminiProvider(apiKey: string): ChatProvider {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        streamChat: request => streamGeminiChat(ai, request),
+    };
+}
@@ -0,0 +1,89 @@
+import type { ChatMessageHistoryItem } from "../../../types";
+import { ProviderError } from "./types";
+
+// Shared by the providers that are called over plain HTTP with server-sent events.
+
+// OpenAI-compatible servers and Anthropic both wrap errors as { "error": { "message": ... } }.
+async function readErrorMessage(response: Response): Promise<string> {
+    const body = await response.text().catch(() => '');
+    try {
+        const parsed = JSON.parse(body);
+        const message = parsed?.error?.message ?? parsed?.error ?? parsed?.message;
+        if (typeof message === 'string' && message) return message;
+    } catch (e) {
+        // Not JSON, fall through to the raw body
+    }
+    return body.trim() || `Request failed with status ${response.status}`;
+}
+
+export async function postJson(url: string, headers: Record<string, string>, body: unknown, signal: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+            signal,
+        });
+    } catch (error: any) {
+        if (signal.aborted) throw error;
+        throw new ProviderError(`Could not reach ${new URL(url).host}: ${error?.message || 'network error'}`, 502);
+    }
+    if (!response.ok || !response.body) {
+        throw new ProviderError(await readErrorMessage(response), response.status);
+    }
+    return response;
+}
+
+export interface ServerSentEvent {
+    event?: string;
+    data: string;
+}
+
+// Events are separated by a blank line; multi-line data fields are joined with '\n'.
+export async function* readServerSentEvents(response: Response): AsyncGenerator<ServerSentEvent> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let event: string | undefined;
+    let dataLines: string[] = [];
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+            const lines = buffer.split(/\r?\n/);
+            buffer = done ? '' : lines.pop()!;
+            for (const line of lines) {
+                if (line === '') {
+                    if (dataLines.length > 0) yield { event, data: dataLines.join('\n') };
+                    event = undefined;
+                    dataLines = [];
+                } else if (line.startsWith('data:')) {
+                    dataLines.push(line.slice(5).replace(/^ /, ''));
+                } else if (line.startsWith('event:')) {
+                    event = line.slice(6).trim();
+                }
+            }
+            if (done) {
+                if (dataLines.length > 0) yield { event, data: dataLines.join('\n') };
+                return;
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+type HistoryPart = ChatMessageHistoryItem['parts'][number];
+
+export const isInlineDataPart = (part: HistoryPart): part is Extract<HistoryPart, { inlineData: unknown }> => 'inlineData' in part;
+
+const TEXT_LIKE_MIME_TYPE = /^text\/|^application\/json$/;
+
+// For attachments a provider can't take as files: text files are passed inline as text,
+// anything else is replaced by a note so the model knows something was attached.
+export function attachmentAsText({ mimeType, data }: { mimeType: string; data: string }): string {
+    if (!TEXT_LIKE_MIME_TYPE.test(mimeType)) return `[Attached ${mimeType} file, which this model cannot read]`;
+    return new TextDecoder().decode(Uint8Array.from(atob(data), char => char.charCodeAt(0)));
+}
@@ -0,0 +1,84 @@
+import type { ModelInfo, ModelProvider, TokenUsage } from "../../../types";
+import { createAnthropicProvider } from "./anthropic";
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider, parseMockScripts } from "./mock";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { ChatProvider, ChatRequest, ProviderError } from "./types";
+
+// Providers are configured with environment variables:
+//   gemini     API_KEY
+//   openai     OPENAI_BASE_URL (defaults to https://api.openai.com/v1) and/or OPENAI_API_KEY;
+//              local servers usually need only the URL, e.g. http://localhost:11434/v1 for Ollama
+//   anthropic  ANTHROPIC_API_KEY, plus ANTHROPIC_BASE_URL for a gateway
+// A model picks its provider with the `provider` field of its registry entry.
+//
+// MOCK_PROVIDER=true sends every model to the mock provider instead, which needs no
+// credentials or network. It is tuned with MOCK_LATENCY_MS (default 30), MOCK_WORDS_PER_CHUNK
+// (default 2) and MOCK_RESPONSES, a JSON array of scripts (see MockScript in ./mock).
+
+export type { ChatProvider, ChatRequest, ProviderEvent, ThinkingConfig } from "./types";
+export { ProviderError } from "./types";
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export const isMockMode = (): boolean => ['1', 'true'].includes((process.env.MOCK_PROVIDER || '').toLowerCase());
+
+const readNumber = (value: string | undefined, fallback: number, min: number): number => {
+    const parsed = Number(value);
+    return value !== undefined && value !== '' && Number.isFinite(parsed) ? Math.max(parsed, min) : fallback;
+};
+
+let mockProvider: ChatProvider | null = null;
+
+function getMockProvider(): ChatProvider {
+    mockProvider ??= createMockProvider({
+        latencyMs: readNumber(process.env.MOCK_LATENCY_MS, 30, 0),
+        wordsPerChunk: Math.round(readNumber(process.env.MOCK_WORDS_PER_CHUNK, 2, 1)),
+        scripts: parseMockScripts(process.env.MOCK_RESPONSES),
+    });
+    return mockProvider;
+}
+
+export function isProviderConfigured(provider: ModelProvider): boolean {
+    if (isMockMode()) return true;
+    switch (provider) {
+        case 'gemini':
+            return !!process.env.API_KEY;
+        case 'openai':
+            return !!(process.env.OPENAI_BASE_URL || process.env.OPENAI_API_KEY);
+        case 'anthropic':
+            return !!process.env.ANTHROPIC_API_KEY;
+        case 'mock':
+            return true;
+    }
+}
+
+export const getModelProvider = (model: ModelInfo): ModelProvider => model.provider || 'gemini';
+
+export function getProvider(model: ModelInfo): ChatProvider {
+    const provider = getModelProvider(model);
+    if (isMockMode() || provider === 'mock') return getMockProvider();
+    if (!isProviderConfigured(provider)) {
+        throw new ProviderError(`The ${provider} provider for "${model.id}" is not configured on the server`, 500);
+    }
+    switch (provider) {
+        case 'gemini':
+            return createGeminiProvider(process.env.API_KEY!);
+        case 'openai':
+            return createOpenAICompatibleProvider(process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL, process.env.OPENAI_API_KEY);
+        case 'anthropic':
+            return createAnthropicProvider(process.env.ANTHROPIC_API_KEY!, process.env.ANTHROPIC_BASE_URL);
+    }
+    throw new ProviderError(`Unknown provider "${provider}" for "${model.id}"`, 500);
+}
+
+// For short one-off requests such as titles, where only the first candidate's text matters.
+export async function generateText(request: ChatRequest): Promise<{ text: string; usage: TokenUsage | null }> {
+    let text = '';
+    let usage: TokenUsage | null = null;
+    for await (const event of getProvider(request.model).streamChat(request)) {
+        if (event.type === 'text-delta' && !event.candidate) text += event.text;
+        if (event.type === 'usage') usage = event.usage;
+    }
+    return { text, usage };
+}
@@ -0,0 +1,155 @@
+import type { TokenUsage } from "../../../types";
+import { sleep } from "../../../services/retryService";
+import { ChatProvider, ChatRequest, ProviderError, ProviderEvent } from "./types";
+
+// A provider that never leaves the server: replies are built from the request, so the
+// same request always streams the same events. Used for offline development and
+// end-to-end tests. What a reply does is decided by the first matching script, checked
+// against the last user message (custom scripts from MOCK_RESPONSES first, then the
+// built-in ones below); without a match the message is echoed back.
+
+export interface MockScript {
+    match: string; // Case-insensitive substring of the last user message
+    text?: string; // Reply text; defaults to the echo reply
+    thoughts?: string; // Streamed as thoughts when the request asks for them
+    finishReason?: string; // e.g. 'MAX_TOKENS' or 'SAFETY'; defaults to 'STOP'
+    promptBlocked?: boolean; // Ends at once with finishReason (default 'SAFETY') as a blocked prompt
+    failRequest?: string; // Fails before streaming starts, with this message
+    failStatus?: number; // Upstream status for failRequest, e.g. 503 or 429; defaults to 500
+    failMidStream?: string; // Breaks off with this error halfway through the reply
+}
+
+export interface MockProviderOptions {
+    latencyMs: number; // Before the first chunk and between chunks
+    wordsPerChunk: number;
+    scripts: MockScript[];
+}
+
+const REPLACE_SUMMARY_COMMAND = '[replace_summary_with_new_text]';
+const SUMMARY_REWRITE_WORDS = /\b(rewrite|rephrase|shorter|longer|shorten|expand|simplify|revise)\b/i;
+
+const BUILT_IN_SCRIPTS: MockScript[] = [
+    { match: '[mock:error]', failRequest: 'Mock provider: simulated request failure' },
+    { match: '[mock:overloaded]', failRequest: 'Mock provider: simulated overload', failStatus: 503 },
+    { match: '[mock:quota]', failRequest: 'Mock provider: simulated quota exhaustion', failStatus: 429 },
+    { match: '[mock:stream-error]', failMidStream: 'Mock provider: simulated failure mid-stream' },
+    { match: '[mock:blocked]', promptBlocked: true },
+    { match: '[mock:safety]', finishReason: 'SAFETY' },
+    { match: '[mock:length]', finishReason: 'MAX_TOKENS' },
+];
+
+// Scripts come from an environment variable, so malformed entries are skipped, not fatal.
+export function parseMockScripts(json: string | undefined): MockScript[] {
+    if (!json) return [];
+    try {
+        const parsed = JSON.parse(json);
+        if (!Array.isArray(parsed)) throw new Error('expected an array');
+        return parsed.filter((script): script is MockScript => {
+            const isValid = !!script && typeof script.match === 'string' && script.match !== '';
+            if (!isValid) console.error('MOCK_RESPONSES: ignoring an entry without a "match" string', script);
+            return isValid;
+        });
+    } catch (error) {
+        console.error('MOCK_RESPONSES is not a valid JSON array of scripts, ignoring it', error);
+        return [];
+    }
+}
+
+const getLastUserText = ({ messages }: ChatRequest): string => {
+    const lastUser = [...messages].reverse().find(message => message.role === 'user');
+    return (lastUser?.parts || []).map(part => ('text' in part ? part.text : `[${part.inlineData.mimeType} attachment]`)).join('\n');
+};
+
+const shorten = (text: string, length: number) => {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+};
+
+// Follow-ups in the summarizer carry the replace command in their instructions; the mock
+// uses it when the user's request asks for the summary to be changed.
+function buildSummaryFollowUp(prompt: string): string {
+    const userRequest = prompt.split("User's Request:")[1]?.split('Your Response:')[0] || '';
+    if (SUMMARY_REWRITE_WORDS.test(userRequest)) {
+        return `${REPLACE_SUMMARY_COMMAND}\nThis is a revised mock summary, written for the request "${shorten(userRequest, 60)}".`;
+    }
+    return `This is a mock answer about the summary, for the request "${shorten(userRequest, 60)}".`;
+}
+
+function buildEchoText(request: ChatRequest, lastUserText: string): string {
+    if (lastUserText.includes(REPLACE_SUMMARY_COMMAND)) return buildSummaryFollowUp(lastUserText);
+    const turn = request.messages.filter(message => message.role === 'user').length;
+    return `This is a mock reply (turn ${turn}, ${request.model.id}) to: "${shorten(lastUserText, 80)}"\n\n- It is generated on the server without calling a model.\n- The same request always gets the same reply.`;
+}
+
+// Rough enough for the usage display: about four characters per token.
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const toChunks = (text: string, wordsPerChunk: number): string[] => {
+    const words = text.split(/(?<=\s)/);
+    const chunks: string[] = [];
+    for (let i = 0; i < words.length; i += wordsPerChunk) {
+        chunks.push(words.slice(i, i + wordsPerChunk).join(''));
+    }
+    return chunks;
+};
+
+// Replies longer than maxOutputTokens are cut off like a real model's would be; a script
+// that ends with MAX_TOKENS stops halfway through its text.
+function applyOutputLimit(text: string, finishReason: string, maxOutputTokens: number | undefined): { text: string; finishReason: string } {
+    if (finishReason === 'MAX_TOKENS') return { text: text.slice(0, Math.ceil(text.length / 2)), finishReason };
+    if (maxOutputTokens !== undefined && estimateTokens(text) > maxOutputTokens) {
+        return { text: text.slice(0, maxOutputTokens * 4), finishReason: 'MAX_TOKENS' };
+    }
+    return { text, finishReason };
+}
+
+async function* streamMockChat({ latencyMs, wordsPerChunk, scripts }: MockProviderOptions, request: ChatRequest): AsyncGenerator<ProviderEvent> {
+    const lastUserText = getLastUserText(request);
+    const script = scripts.find(candidate => lastUserText.toLowerCase().includes(candidate.match.toLowerCase()));
+    const pause = () => sleep(latencyMs, request.signal);
+
+    await pause();
+    if (script?.failRequest) throw new ProviderError(script.failRequest, script.failStatus || 500);
+    if (script?.promptBlocked) {
+        yield { type: 'finish', reason: script.finishReason || 'SAFETY', isPromptBlocked: true };
+        return;
+    }
+
+    if (request.thinking?.includeThoughts) {
+        yield { type: 'thought-delta', text: script?.thoughts || `**Considering the request**\n\nThe message is ${lastUserText.length} characters long.` };
+        await pause();
+    }
+
+    const { text, finishReason } = applyOutputLimit(
+        script?.text ?? buildEchoText(request, lastUserText),
+        script?.finishReason || 'STOP',
+        request.params.maxOutputTokens,
+    );
+    const candidateCount = request.params.candidateCount || 1;
+    const chunks = toChunks(text, wordsPerChunk);
+    const failAt = script?.failMidStream ? Math.ceil(chunks.length / 2) : -1;
+    for (const [position, chunk] of chunks.entries()) {
+        if (position === failAt) throw new ProviderError(script!.failMidStream!);
+        yield { type: 'text-delta', text: chunk };
+        for (let candidate = 1; candidate < candidateCount; candidate++) {
+            yield { type: 'text-delta', text: chunk, candidate };
+        }
+        await pause();
+    }
+    for (let candidate = 1; candidate < candidateCount; candidate++) {
+        yield { type: 'text-delta', text: ` (Alternate ${candidate + 1}.)`, candidate };
+    }
+
+    const promptTokens = estimateTokens([request.systemInstruction || '', ...request.messages.map(message => JSON.stringify(message.parts))].join(''));
+    const outputTokens = estimateTokens(text) * candidateCount;
+    const usage: TokenUsage = { promptTokens, outputTokens, thoughtTokens: 0, totalTokens: promptTokens + outputTokens };
+    yield { type: 'usage', usage };
+    yield { type: 'finish', reason: finishReason };
+}
+
+export function createMockProvider(options: MockProviderOptions): ChatProvider {
+    const scripts = [...options.scripts, ...BUILT_IN_SCRIPTS];
+    return {
+        streamChat: request => streamMockChat({ ...options, scripts }, request),
+    };
+}
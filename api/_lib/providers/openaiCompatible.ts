@@ -0,0 +1,101 @@
+import type { ChatMessageHistoryItem, TokenUsage } from "../../../types";
+import { attachmentAsText, isInlineDataPart, postJson, readServerSentEvents } from "./http";
+import { ChatProvider, ChatRequest, ProviderError, ProviderEvent } from "./types";
+
+// Chat Completions API, as served by OpenAI and by local servers such as llama.cpp,
+// Ollama and vLLM. Only the widely supported subset is used: no top_k (OpenAI rejects
+// it) and no thinking budget, though reasoning text is forwarded when a server streams it.
+
+type OpenAIContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string | OpenAIContentPart[];
+}
+
+// Plain strings where possible, since some local servers only accept those.
+function toOpenAIMessage({ role, parts }: ChatMessageHistoryItem): OpenAIMessage {
+    const contentParts: OpenAIContentPart[] = parts.map(part => {
+        if (!isInlineDataPart(part)) return { type: 'text', text: part.text };
+        if (role === 'user' && part.inlineData.mimeType.startsWith('image/')) {
+            return { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } };
+        }
+        return { type: 'text', text: attachmentAsText(part.inlineData) };
+    });
+    const isTextOnly = contentParts.every(part => part.type === 'text');
+    return {
+        role: role === 'model' ? 'assistant' : 'user',
+        content: isTextOnly ? contentParts.map(part => (part as { text: string }).text).join('\n\n') : contentParts,
+    };
+}
+
+const FINISH_REASONS: Record<string, string> = {
+    stop: 'STOP',
+    length: 'MAX_TOKENS',
+    content_filter: 'SAFETY',
+};
+
+function toTokenUsage(usage: any): TokenUsage {
+    const promptTokens = usage.prompt_tokens || 0;
+    const thoughtTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+    const outputTokens = Math.max((usage.completion_tokens || 0) - thoughtTokens, 0);
+    return {
+        promptTokens,
+        outputTokens,
+        thoughtTokens,
+        totalTokens: usage.total_tokens || promptTokens + outputTokens + thoughtTokens,
+    };
+}
+
+async function* streamOpenAIChat(baseUrl: string, apiKey: string | undefined, { model, systemInstruction, messages, params, signal }: ChatRequest): AsyncGenerator<ProviderEvent> {
+    const body = {
+        model: model.id,
+        messages: [
+            ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+            ...messages.map(toOpenAIMessage),
+        ],
+        stream: true,
+        stream_options: { include_usage: true },
+        temperature: params.temperature,
+        top_p: params.topP,
+        max_tokens: params.maxOutputTokens,
+        stop: params.stopSequences,
+        n: params.candidateCount,
+    };
+    const response = await postJson(`${baseUrl}/chat/completions`, apiKey ? { Authorization: `Bearer ${apiKey}` } : {}, body, signal);
+
+    for await (const { data } of readServerSentEvents(response)) {
+        if (data === '[DONE]') return;
+        const chunk = JSON.parse(data);
+        if (chunk.error) {
+            throw new ProviderError(chunk.error.message || 'The model server reported an error');
+        }
+        for (const choice of chunk.choices || []) {
+            const index: number = choice.index ?? 0;
+            // llama.cpp and vLLM call it reasoning_content, Ollama calls it reasoning.
+            const reasoning = choice.delta?.reasoning_content ?? choice.delta?.reasoning;
+            if (index === 0 && typeof reasoning === 'string' && reasoning) {
+                yield { type: 'thought-delta', text: reasoning };
+            }
+            const text = choice.delta?.content;
+            if (typeof text === 'string' && text) {
+                yield index === 0 ? { type: 'text-delta', text } : { type: 'text-delta', text, candidate: index };
+            }
+            if (index === 0 && choice.finish_reason) {
+                yield { type: 'finish', reason: FINISH_REASONS[choice.finish_reason] || choice.finish_reason.toUpperCase() };
+            }
+        }
+        if (chunk.usage) {
+            yield { type: 'usage', usage: toTokenUsage(chunk.usage) };
+        }
+    }
+}
+
+export function createOpenAICompatibleProvider(baseUrl: string, apiKey?: string): ChatProvider {
+    const normalizedBaseUrl = baseUrl.replace(/\/+$/, '');
+    return {
+        streamChat: request => streamOpenAIChat(normalizedBaseUrl, apiKey, request),
+    };
+}
@@ -0,0 +1,37 @@
+import type { ChatMessageHistoryItem, GenerationParams, ModelInfo, StreamEvent } from "../../../types";
+
+// What the proxy asks of a model API. Each provider converts the request to its own
+// format and its responses back to StreamEvents, so the client never sees the difference.
+
+export interface ThinkingConfig {
+    thinkingBudget: number; // -1 lets the model decide
+    includeThoughts?: boolean;
+}
+
+export interface ChatRequest {
+    model: ModelInfo;
+    systemInstruction?: string;
+    messages: ChatMessageHistoryItem[]; // The whole conversation, ending with the new user message
+    params: GenerationParams; // Already clamped to the model's limits
+    thinking?: ThinkingConfig;
+    signal: AbortSignal;
+}
+
+// 'done' and 'error' are added by the proxy. Usage and finish may be yielded more than
+// once; the last of each is what gets sent.
+export type ProviderEvent = Exclude<StreamEvent, { type: 'done' } | { type: 'error' }>;
+
+export interface ChatProvider {
+    streamChat(request: ChatRequest): AsyncIterable<ProviderEvent>;
+}
+
+// A failed upstream request. `status` is the upstream HTTP status when there is one.
+export class ProviderError extends Error {
+    status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'ProviderError';
+        this.status = status;
+    }
+}
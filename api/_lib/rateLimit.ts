@@ -0,0 +1,227 @@
+import type { RateLimitErrorBody, TokenUsage } from "../../types";
+import { AuthUser, getAuthMode } from "./auth";
+import type { ChatRequest } from "./providers";
+
+// Per-client limits on the proxy, each off unless set:
+//   RATE_LIMIT_REQUESTS_PER_MINUTE  POST requests (chats, summaries, titles, translations)
+//   RATE_LIMIT_TOKENS_PER_DAY       prompt + output tokens reported by the model, per UTC day
+//                                   (estimated for streams stopped before it reported them)
+// A client is the signed-in user, or the IP address when AUTH_MODE is "none".
+// Sign-in attempts are limited per IP address with AUTH_SIGN_IN_ATTEMPTS_PER_MINUTE
+// (default 10), so passwords can't be guessed at speed.
+//
+// The IP address is X-Real-IP, which Vercel and the dev server set from the connection, or
+// else the last X-Forwarded-For entry, the one added by the nearest proxy. Both headers can
+// be forged by clients that reach the handler directly, so on other hosts the per-IP limits
+// are only as good as the proxy in front that sets them.
+//
+// Counters are kept in Redis when UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are
+// set (any server speaking the Upstash REST protocol), otherwise in memory. The memory store
+// only suits a single dev server: every edge instance would keep its own counts.
+//
+// Windows are fixed (the current minute, the current UTC day). That needs one counter per
+// window, at the cost of allowing a burst of up to twice the per-minute limit across the
+// boundary between two minutes.
+
+export interface RateLimitStore {
+    // Adds `amount` to the counter and returns the new total. A new counter expires after ttlMs.
+    increment(key: string, amount: number, ttlMs: number): Promise<number>;
+    get(key: string): Promise<number>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MEMORY_STORE_SWEEP_SIZE = 1000;
+const DEFAULT_SIGN_IN_ATTEMPTS_PER_MINUTE = 10;
+const CHARS_PER_TOKEN = 4;
+
+// --- Stores --------------------------------------------------------------------
+
+export function createMemoryStore(): RateLimitStore {
+    const counters = new Map<string, { value: number; expiresAt: number }>();
+
+    const read = (key: string, now: number) => {
+        const counter = counters.get(key);
+        if (counter && counter.expiresAt <= now) {
+            counters.delete(key);
+            return undefined;
+        }
+        return counter;
+    };
+
+    // Counters of past windows are never read again, so they are dropped in bulk.
+    const sweep = (now: number) => {
+        if (counters.size < MEMORY_STORE_SWEEP_SIZE) return;
+        for (const [key, counter] of counters) {
+            if (counter.expiresAt <= now) counters.delete(key);
+        }
+    };
+
+    return {
+        async increment(key, amount, ttlMs) {
+            const now = Date.now();
+            sweep(now);
+            const counter = read(key, now) ?? { value: 0, expiresAt: now + ttlMs };
+            counter.value += amount;
+            counters.set(key, counter);
+            return counter.value;
+        },
+        async get(key) {
+            return read(key, Date.now())?.value ?? 0;
+        },
+    };
+}
+
+// Upstash's REST API: commands are POSTed as JSON arrays, and /multi-exec runs a list of
+// them as one transaction, answering with a { result } or { error } per command.
+export function createRedisRestStore(baseUrl: string, token: string): RateLimitStore {
+    const execute = async (commands: (string | number)[][]): Promise<unknown[]> => {
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/multi-exec`, {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify(commands),
+        });
+        const body = await response.json().catch(() => null);
+        if (!response.ok || !Array.isArray(body)) {
+            throw new Error(`Redis request failed with status ${response.status}: ${body?.error || 'unexpected response'}`);
+        }
+        return body.map(reply => {
+            if (reply?.error) throw new Error(`Redis error: ${reply.error}`);
+            return reply?.result;
+        });
+    };
+
+    return {
+        async increment(key, amount, ttlMs) {
+            // SET NX only sets the expiry when it creates the counter, and INCRBY keeps it.
+            const [, total] = await execute([['SET', key, 0, 'PX', ttlMs, 'NX'], ['INCRBY', key, amount]]);
+            return Number(total);
+        },
+        async get(key) {
+            const [value] = await execute([['GET', key]]);
+            return Number(value) || 0;
+        },
+    };
+}
+
+let store: RateLimitStore | null = null;
+
+function getStore(): RateLimitStore {
+    if (!store) {
+        const url = process.env.UPSTASH_REDIS_REST_URL;
+        const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+        store = url && token ? createRedisRestStore(url, token) : createMemoryStore();
+    }
+    return store;
+}
+
+// --- Limits --------------------------------------------------------------------
+
+const readLimit = (name: string): number | null => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value >= 1 ? Math.floor(value) : null;
+};
+
+const currentWindow = (lengthMs: number) => {
+    const now = Date.now();
+    const index = Math.floor(now / lengthMs);
+    return { index, remainingMs: (index + 1) * lengthMs - now };
+};
+
+const tokensKey = (clientId: string, dayIndex: number) => `ratelimit:tokens:${clientId}:${dayIndex}`;
+
+export function getClientIp(req: Request): string {
+    const forwardedFor = req.headers.get('X-Forwarded-For')?.split(',').pop()?.trim();
+    return req.headers.get('X-Real-IP')?.trim() || forwardedFor || 'unknown';
+}
+
+export function getClientId(req: Request, user: AuthUser): string {
+    return getAuthMode() !== 'none' ? `user:${user.id}` : `ip:${getClientIp(req)}`;
+}
+
+const rateLimitedResponse = (body: RateLimitErrorBody) =>
+    new Response(JSON.stringify(body), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', 'Retry-After': String(body.retryAfterSeconds) },
+    });
+
+// Counts a request against the client's limits. Returns a 429 response if it is over one,
+// or null to let the request through.
+export async function checkRateLimits(clientId: string): Promise<Response | null> {
+    const requestsPerMinute = readLimit('RATE_LIMIT_REQUESTS_PER_MINUTE');
+    const tokensPerDay = readLimit('RATE_LIMIT_TOKENS_PER_DAY');
+    try {
+        // Checked first, so requests turned away by the quota don't use up the request limit.
+        if (tokensPerDay) {
+            const day = currentWindow(DAY_MS);
+            if (await getStore().get(tokensKey(clientId, day.index)) >= tokensPerDay) {
+                return rateLimitedResponse({
+                    error: `Daily quota of ${tokensPerDay} tokens reached`,
+                    code: 'rate-limited',
+                    limit: 'tokens',
+                    retryAfterSeconds: Math.ceil(day.remainingMs / 1000),
+                });
+            }
+        }
+        if (requestsPerMinute) {
+            const minute = currentWindow(MINUTE_MS);
+            const count = await getStore().increment(`ratelimit:requests:${clientId}:${minute.index}`, 1, minute.remainingMs);
+            if (count > requestsPerMinute) {
+                return rateLimitedResponse({
+                    error: `Limit of ${requestsPerMinute} requests per minute reached`,
+                    code: 'rate-limited',
+                    limit: 'requests',
+                    retryAfterSeconds: Math.ceil(minute.remainingMs / 1000),
+                });
+            }
+        }
+    } catch (error) {
+        // An unreachable store shouldn't make the whole app unusable.
+        console.error(`Rate limit check failed for ${clientId}, allowing the request`, error);
+    }
+    return null;
+}
+
+// Counts a sign-in attempt from the request's IP address. Returns a 429 response if there
+// have been too many this minute, or null to let the attempt through.
+export async function checkSignInLimit(req: Request): Promise<Response | null> {
+    const attemptsPerMinute = readLimit('AUTH_SIGN_IN_ATTEMPTS_PER_MINUTE') ?? DEFAULT_SIGN_IN_ATTEMPTS_PER_MINUTE;
+    const ip = getClientIp(req);
+    try {
+        const minute = currentWindow(MINUTE_MS);
+        const count = await getStore().increment(`ratelimit:sign-in:${ip}:${minute.index}`, 1, minute.remainingMs);
+        if (count > attemptsPerMinute) {
+            return rateLimitedResponse({
+                error: `Too many sign-in attempts. Try again in ${Math.ceil(minute.remainingMs / 1000)} seconds.`,
+                code: 'rate-limited',
+                limit: 'requests',
+                retryAfterSeconds: Math.ceil(minute.remainingMs / 1000),
+            });
+        }
+    } catch (error) {
+        console.error(`Sign-in limit check failed for ${ip}, allowing the attempt`, error);
+    }
+    return null;
+}
+
+// Adds a finished request's tokens to the client's daily total. A reply that takes the
+// total past the quota still completes; the next request is the one turned away.
+export async function recordTokenUsage(clientId: string, usage: TokenUsage | null): Promise<void> {
+    if (!readLimit('RATE_LIMIT_TOKENS_PER_DAY') || !usage?.totalTokens) return;
+    const day = currentWindow(DAY_MS);
+    try {
+        await getStore().increment(tokensKey(clientId, day.index), usage.totalTokens, day.remainingMs);
+    } catch (error) {
+        console.error(`Could not record token usage for ${clientId}`, error);
+    }
+}
+
+// About four characters to a token, for replies stopped before the provider reported usage.
+// Attachments are not counted, so this errs low.
+export function estimateUsage(request: ChatRequest, outputChars: number): TokenUsage {
+    const promptChars = (request.systemInstruction?.length ?? 0) + request.messages.reduce((sum, message) =>
+        sum + message.parts.reduce((partSum, part) => partSum + ('text' in part ? part.text.length : 0), 0), 0);
+    const promptTokens = Math.ceil(promptChars / CHARS_PER_TOKEN);
+    const outputTokens = Math.ceil(outputChars / CHARS_PER_TOKEN);
+    return { promptTokens, outputTokens, thoughtTokens: 0, totalTokens: promptTokens + outputTokens };
+}
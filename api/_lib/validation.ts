@@ -0,0 +1,218 @@
+import type { ChatMessageHistoryItem, ChatProxyPayload, GenerationParams, ModelInfo, ProxyErrorCode, ProxyRequest, ProxyRequestType } from "../../types";
+import { findModel } from "./modelRegistry";
+
+// Checks POST /api/proxy bodies against the ProxyRequest types before anything is sent to
+// a model. Fields are checked for type and size; out-of-range sampling values are clamped
+// later by generationConfig.ts rather than rejected. Unknown fields are ignored.
+//
+// PROXY_MAX_BODY_MB caps the request body (default 4). Vercel turns away bodies over about
+// 4.5 MB before the handler runs, so a higher value only matters on other hosts. The app
+// keeps its requests under 3.5 MB (MAX_PROXY_REQUEST_BYTES in services/streamService.ts).
+
+const DEFAULT_MAX_BODY_MB = 4;
+const MAX_HISTORY_MESSAGES = 2000;
+const MAX_PARTS_PER_MESSAGE = 32;
+// About a million tokens, the largest context window in the registry.
+const MAX_TEXT_LENGTH = 4_000_000;
+const MAX_SYSTEM_INSTRUCTION_LENGTH = 100_000;
+const MAX_STOP_SEQUENCE_LENGTH = 1000;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+export class RequestValidationError extends Error {
+    code: ProxyErrorCode;
+    path?: string;
+    status: number;
+
+    constructor(code: ProxyErrorCode, message: string, path?: string, status = 400) {
+        super(message);
+        this.name = 'RequestValidationError';
+        this.code = code;
+        this.path = path;
+        this.status = status;
+    }
+}
+
+const fail = (path: string, problem: string, code: ProxyErrorCode = 'invalid-request'): never => {
+    throw new RequestValidationError(code, `${path} ${problem}`, path);
+};
+
+// --- Field readers -------------------------------------------------------------
+
+const readObject = (value: unknown, path: string): Record<string, unknown> => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) fail(path, 'must be an object');
+    return value as Record<string, unknown>;
+};
+
+const readString = (value: unknown, path: string, maxLength: number): string => {
+    if (typeof value !== 'string') return fail(path, 'must be a string');
+    if (value.length > maxLength) fail(path, `must be at most ${maxLength} characters long`);
+    return value;
+};
+
+const readArray = (value: unknown, path: string, maxItems: number): unknown[] => {
+    if (!Array.isArray(value)) return fail(path, 'must be an array');
+    if (value.length > maxItems) fail(path, `must have at most ${maxItems} items`);
+    return value;
+};
+
+const readNumber = (value: unknown, path: string): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fail(path, 'must be a finite number');
+    return value;
+};
+
+// null counts as absent, as JSON.stringify turns nothing else into it.
+const readOptional = <T>(value: unknown, read: (value: unknown) => T): T | undefined =>
+    value === undefined || value === null ? undefined : read(value);
+
+// Only models the deployment offers can be used, whatever the client asks for.
+export function requireModel(modelId: unknown, path = 'payload.model'): ModelInfo {
+    const model = findModel(readString(modelId, path, 200));
+    if (!model) throw new RequestValidationError('unknown-model', `Model "${modelId}" is not available`, path);
+    return model;
+}
+
+// `allowedMimeTypes` is only passed for the new message: earlier turns may carry files
+// the chat's previous model accepted, which the providers then describe in text.
+function readParts(value: unknown, path: string, allowedMimeTypes?: string[]): ChatMessageHistoryItem['parts'] {
+    const parts = readArray(value, path, MAX_PARTS_PER_MESSAGE);
+    if (parts.length === 0) fail(path, 'must not be empty');
+    return parts.map((item, index) => {
+        const partPath = `${path}[${index}]`;
+        const part = readObject(item, partPath);
+        if (part.text !== undefined) {
+            return { text: readString(part.text, `${partPath}.text`, MAX_TEXT_LENGTH) };
+        }
+        if (part.inlineData !== undefined) {
+            const inlineData = readObject(part.inlineData, `${partPath}.inlineData`);
+            const mimeType = readString(inlineData.mimeType, `${partPath}.inlineData.mimeType`, 200);
+            const data = readString(inlineData.data, `${partPath}.inlineData.data`, Infinity);
+            if (!BASE64_PATTERN.test(data)) fail(`${partPath}.inlineData.data`, 'must be base64');
+            if (allowedMimeTypes && !allowedMimeTypes.includes(mimeType)) {
+                fail(`${partPath}.inlineData.mimeType`, `"${mimeType}" is not accepted by this model`, 'unsupported-attachment');
+            }
+            return { inlineData: { mimeType, data } };
+        }
+        return fail(partPath, 'must have either text or inlineData');
+    });
+}
+
+function readHistory(value: unknown, path: string): ChatMessageHistoryItem[] {
+    return readArray(value, path, MAX_HISTORY_MESSAGES).map((item, index) => {
+        const messagePath = `${path}[${index}]`;
+        const message = readObject(item, messagePath);
+        if (message.role !== 'user' && message.role !== 'model') fail(`${messagePath}.role`, 'must be "user" or "model"');
+        return { role: message.role as 'user' | 'model', parts: readParts(message.parts, `${messagePath}.parts`) };
+    });
+}
+
+function readGenerationParams(value: unknown, path: string): GenerationParams {
+    const input = readObject(value, path);
+    const params: GenerationParams = {};
+    for (const key of ['temperature', 'topP', 'topK', 'maxOutputTokens', 'candidateCount'] as const) {
+        const number = readOptional(input[key], item => readNumber(item, `${path}.${key}`));
+        if (number !== undefined) params[key] = number;
+    }
+    const stopSequences = readOptional(input.stopSequences, item =>
+        readArray(item, `${path}.stopSequences`, 100).map((sequence, index) =>
+            readString(sequence, `${path}.stopSequences[${index}]`, MAX_STOP_SEQUENCE_LENGTH)));
+    if (stopSequences) params.stopSequences = stopSequences;
+    return params;
+}
+
+function readChatConfig(value: unknown, path: string): ChatProxyPayload['config'] {
+    const input = readObject(value, path);
+    const config: NonNullable<ChatProxyPayload['config']> = {};
+    const systemInstruction = readOptional(input.systemInstruction, item =>
+        readString(item, `${path}.systemInstruction`, MAX_SYSTEM_INSTRUCTION_LENGTH));
+    if (systemInstruction !== undefined) config.systemInstruction = systemInstruction;
+    const thinkingConfig = readOptional(input.thinkingConfig, item => {
+        const thinking = readObject(item, `${path}.thinkingConfig`);
+        const thinkingBudget = readNumber(thinking.thinkingBudget, `${path}.thinkingConfig.thinkingBudget`);
+        if (!Number.isInteger(thinkingBudget)) fail(`${path}.thinkingConfig.thinkingBudget`, 'must be an integer');
+        const includeThoughts = readOptional(thinking.includeThoughts, flag => {
+            if (typeof flag !== 'boolean') fail(`${path}.thinkingConfig.includeThoughts`, 'must be a boolean');
+            return flag as boolean;
+        });
+        return includeThoughts === undefined ? { thinkingBudget } : { thinkingBudget, includeThoughts };
+    });
+    if (thinkingConfig) config.thinkingConfig = thinkingConfig;
+    return config;
+}
+
+function readChatPayload(payload: Record<string, unknown>): ChatProxyPayload {
+    const model = requireModel(payload.model);
+    const message = readObject(payload.message, 'payload.message');
+    return {
+        history: readHistory(payload.history ?? [], 'payload.history'),
+        message: { parts: readParts(message.parts, 'payload.message.parts', model.attachmentMimeTypes) },
+        model: model.id,
+        config: readOptional(payload.config, item => readChatConfig(item, 'payload.config')),
+        generationParams: readOptional(payload.generationParams, item => readGenerationParams(item, 'payload.generationParams')),
+    };
+}
+
+// --- Entry points --------------------------------------------------------------
+
+const PROXY_REQUEST_TYPES: ProxyRequestType[] = ['chat', 'summarize', 'summarize-follow-up', 'generate-title', 'translate', 'compact'];
+
+export function parseProxyRequest(body: unknown): ProxyRequest {
+    const request = readObject(body, 'body');
+    const type = request.type as ProxyRequestType;
+    if (!PROXY_REQUEST_TYPES.includes(type)) {
+        throw new RequestValidationError('unknown-type', `Unknown request type "${request.type}"`, 'type');
+    }
+    const payload = readObject(request.payload, 'payload');
+    switch (type) {
+        case 'chat':
+            return { type, payload: readChatPayload(payload) };
+        case 'summarize':
+        case 'summarize-follow-up':
+            return { type, payload: { prompt: readString(payload.prompt, 'payload.prompt', MAX_TEXT_LENGTH), model: requireModel(payload.model).id } };
+        case 'generate-title':
+            return { type, payload: { titlePrompt: readString(payload.titlePrompt, 'payload.titlePrompt', MAX_TEXT_LENGTH) } };
+        case 'translate':
+            return { type, payload: { translationPrompt: readString(payload.translationPrompt, 'payload.translationPrompt', MAX_TEXT_LENGTH) } };
+        case 'compact':
+            return { type, payload: { compactionPrompt: readString(payload.compactionPrompt, 'payload.compactionPrompt', MAX_TEXT_LENGTH) } };
+    }
+}
+
+const getMaxBodyBytes = () => {
+    const megabytes = Number(process.env.PROXY_MAX_BODY_MB);
+    return Math.round((Number.isFinite(megabytes) && megabytes > 0 ? megabytes : DEFAULT_MAX_BODY_MB) * 1024 * 1024);
+};
+
+// Content-Length can be missing or wrong, so the body is also counted while it is read,
+// and reading stops as soon as it goes over the limit.
+export async function readJsonBody(req: Request): Promise<unknown> {
+    const maxBytes = getMaxBodyBytes();
+    const tooLarge = () => new RequestValidationError('payload-too-large', `Request body is over the ${Math.round(maxBytes / 1024 / 1024)} MB limit`, undefined, 413);
+    if (Number(req.headers.get('Content-Length')) > maxBytes) throw tooLarge();
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    if (req.body) {
+        const reader = req.body.getReader();
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            size += value.byteLength;
+            if (size > maxBytes) {
+                await reader.cancel();
+                throw tooLarge();
+            }
+            chunks.push(value);
+        }
+    }
+    const bytes = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    try {
+        return JSON.parse(new TextDecoder().decode(bytes));
+    } catch (e) {
+        throw new RequestValidationError('invalid-json', 'Request body is not valid JSON');
+    }
+}
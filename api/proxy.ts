@@ -1,93 +1,223 @@
-import { GoogleGenAI, Content } from "@google/genai";
+import type { ProxyErrorBody, ProxyErrorCode, StreamEvent, TextProxyResponse, TokenUsage } from "../types";
+import { clampGenerationParams, clampThinkingConfig } from "./_lib/generationConfig";
+import { getModelRegistry, getUtilityModel } from "./_lib/modelRegistry";
+import { AuthUser, authenticate, handleAuthRequest, unauthorizedResponse } from "./_lib/auth";
+import { checkRateLimits, checkSignInLimit, estimateUsage, getClientId, recordTokenUsage } from "./_lib/rateLimit";
+import { parseProxyRequest, readJsonBody, requireModel } from "./_lib/validation";
+import { classifyError, withRetry } from "./_lib/errors";
+import { ChatRequest, ProviderEvent, generateText, getProvider } from "./_lib/providers";
 
 export const config = {
   runtime: 'edge',
 };
 
-// Helper to convert the SDK's async iterable stream to a web ReadableStream
-function geminiStreamToWebStream(stream: AsyncIterable<any>, extractText: (chunk: any) => string) {
-    return new ReadableStream({
-        async start(controller) {
-            const encoder = new TextEncoder();
-            for await (const chunk of stream) {
-                const text = extractText(chunk);
-                if (text) {
-                    controller.enqueue(encoder.encode(text));
+// Vercel ends an edge function that hasn't started its response within 25 seconds.
+const FIRST_EVENT_WAIT_MS = 10_000;
+
+// Converts a provider's event stream into an NDJSON stream of StreamEvents.
+// Events are pulled on demand, and cancelling the web stream (e.g. the client
+// aborting its fetch) aborts the upstream request instead of draining it.
+// Usage and finish reason are sent once, just before 'done'; an upstream failure
+// mid-stream becomes an 'error' event, since the 200 status has already been sent.
+// The first event is awaited for up to FIRST_EVENT_WAIT_MS so that a request the
+// provider rejects outright still fails with an error response; a model that thinks
+// silently for longer gets its stream started anyway, and a failure after that is an
+// 'error' event too. Until the first event, transient failures are retried with a
+// fresh call to `startEvents`. `onEnd` runs once, with the usage (if the provider sent
+// it yet) and the characters of text and thoughts sent: before the stream closes, while
+// the request is still alive, or when the stream is cancelled or the client goes away.
+async function toEventStream(
+    startEvents: () => AsyncIterable<ProviderEvent>,
+    upstreamController: AbortController,
+    user: AuthUser,
+    onEnd: (usage: TokenUsage | null, outputChars: number) => Promise<void>,
+) {
+    const starting = withRetry(async () => {
+        const iterator = startEvents()[Symbol.asyncIterator]();
+        return { iterator, firstResult: await iterator.next() };
+    }, upstreamController.signal);
+    // A failure after the wait is read in pull(); until then, don't report it as unhandled.
+    starting.catch(() => {});
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const started = await Promise.race([
+        starting,
+        new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), FIRST_EVENT_WAIT_MS); }),
+    ]).finally(() => clearTimeout(timer));
+    let iterator = started?.iterator ?? null;
+    let firstResult: IteratorResult<ProviderEvent> | null = started?.firstResult ?? null;
+    const encoder = new TextEncoder();
+    let usage: TokenUsage | null = null;
+    let finishEvent: StreamEvent | null = null;
+    let outputChars = 0;
+    let ended = false;
+
+    const encodeEvent = (event: StreamEvent) => encoder.encode(JSON.stringify(event) + '\n');
+
+    const end = async () => {
+        if (ended) return;
+        ended = true;
+        await onEnd(usage, outputChars);
+    };
+
+    const enqueueEnd = async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+        await end();
+        if (usage) controller.enqueue(encodeEvent({ type: 'usage', usage }));
+        if (finishEvent) controller.enqueue(encodeEvent(finishEvent));
+        controller.enqueue(encodeEvent({ type: 'done' }));
+        controller.close();
+    };
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                if (!iterator) {
+                    ({ iterator, firstResult } = await starting);
+                }
+                // Usage and finish events don't produce output, so keep reading until something does.
+                while (true) {
+                    const { done, value: event } = firstResult ?? await iterator.next();
+                    firstResult = null;
+                    if (done) {
+                        await enqueueEnd(controller);
+                        return;
+                    }
+                    if (event.type === 'usage') {
+                        usage = event.usage;
+                    } else if (event.type === 'finish') {
+                        finishEvent = event;
+                    } else {
+                        if (event.type === 'text-delta' || event.type === 'thought-delta') outputChars += event.text.length;
+                        controller.enqueue(encodeEvent(event));
+                        return;
+                    }
                 }
+            } catch (error) {
+                if (upstreamController.signal.aborted) {
+                    await end();
+                    return;
+                }
+                console.error(`Error in /api/proxy stream for user "${user.id}"`, error);
+                const { code, message } = classifyError(error);
+                controller.enqueue(encodeEvent({ type: 'error', message, code }));
+                await enqueueEnd(controller);
             }
-            controller.close();
-        }
+        },
+        async cancel() {
+            upstreamController.abort();
+            await iterator?.return?.();
+            await end();
+        },
     });
 }
 
+const STREAM_HEADERS = { 'Content-Type': 'application/x-ndjson; charset=utf-8' };
+
+const errorResponse = (status: number, code: ProxyErrorCode, error: string, path?: string) => {
+  const body: ProxyErrorBody = path ? { error, code, path } : { error, code };
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+};
+
+const textResponse = (text: string) => {
+  const body: TextProxyResponse = { text };
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+};
+
 export default async function handler(req: Request) {
-  if (req.method !== 'POST') {
-    return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: { 'Content-Type': 'application/json' } });
+  const resource = new URL(req.url).searchParams.get('resource');
+  if (req.method === 'POST' && resource === 'sign-in') {
+    const signInLimitResponse = await checkSignInLimit(req);
+    if (signInLimitResponse) return signInLimitResponse;
+  }
+  const authResponse = await handleAuthRequest(req, resource);
+  if (authResponse) return authResponse;
+
+  // Everything else, including the model list, needs a signed-in user.
+  const user = await authenticate(req);
+  if (!user) return unauthorizedResponse();
+
+  // GET /api/proxy?resource=models lists the models this deployment offers.
+  if (req.method === 'GET' && resource === 'models') {
+    return new Response(JSON.stringify(getModelRegistry()), {
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'private, max-age=300' },
+    });
   }
 
-  if (!process.env.API_KEY) {
-    return new Response(JSON.stringify({ error: 'API key not configured on the server' }), { status: 500, headers: { 'Content-Type': 'application/json' } });
+  if (req.method !== 'POST') {
+    return errorResponse(405, 'method-not-allowed', 'Method not allowed');
   }
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const clientId = getClientId(req, user);
+  const rateLimitResponse = await checkRateLimits(clientId);
+  if (rateLimitResponse) return rateLimitResponse;
+  const recordUsage = (usage: TokenUsage | null) => recordTokenUsage(clientId, usage);
+  // A stream cut short before the provider reported usage is counted from its text instead.
+  const recordStreamUsage = (request: ChatRequest) => (usage: TokenUsage | null, outputChars: number) =>
+    recordUsage(usage ?? (outputChars > 0 ? estimateUsage(request, outputChars) : null));
+
+  // Aborted when the client disconnects or cancels the response stream.
+  const upstreamController = new AbortController();
+  req.signal?.addEventListener('abort', () => upstreamController.abort());
 
   try {
-    const { type, payload } = await req.json();
+    const request = parseProxyRequest(await readJsonBody(req));
+    // Titles, translations and context summaries are single prompts to the utility model.
+    const generateUtilityText = async (prompt: string, temperature: number, maxOutputTokens?: number) => {
+        const { text, usage } = await withRetry(() => generateText({
+            model: getUtilityModel(),
+            messages: [{ role: 'user', parts: [{ text: prompt }] }],
+            params: { temperature, maxOutputTokens },
+            signal: upstreamController.signal,
+        }), upstreamController.signal);
+        await recordUsage(usage);
+        return text;
+    };
 
-    switch (type) {
+    switch (request.type) {
       case 'chat': {
-        const { history, message, model, config: chatConfig } = payload;
-        const chat = ai.chats.create({
-            model: model,
-            config: chatConfig,
-            history: history as Content[],
-        });
-        const stream = await chat.sendMessageStream({ message });
-        const webStream = geminiStreamToWebStream(stream, (chunk) => chunk.text);
-        return new Response(webStream, { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+        const { history, message, model, config: requestedConfig, generationParams } = request.payload;
+        const modelInfo = requireModel(model);
+        const chatRequest: ChatRequest = {
+            model: modelInfo,
+            systemInstruction: requestedConfig?.systemInstruction,
+            messages: [...history, { role: 'user', parts: message.parts }],
+            params: clampGenerationParams(modelInfo, generationParams),
+            thinking: clampThinkingConfig(modelInfo, requestedConfig?.thinkingConfig),
+            signal: upstreamController.signal,
+        };
+        const startEvents = () => getProvider(modelInfo).streamChat(chatRequest);
+        return new Response(await toEventStream(startEvents, upstreamController, user, recordStreamUsage(chatRequest)), { headers: STREAM_HEADERS });
       }
 
-      case 'generate-title': {
-        const { titlePrompt } = payload;
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: titlePrompt,
-            config: { temperature: 0.3, maxOutputTokens: 60 },
-        });
-        const text = response.text;
-        return new Response(JSON.stringify({ text }), { headers: { 'Content-Type': 'application/json' } });
-      }
+      case 'generate-title':
+        return textResponse(await generateUtilityText(request.payload.titlePrompt, 0.3, 60));
+
+      case 'translate':
+        return textResponse(await generateUtilityText(request.payload.translationPrompt, 0.2));
+
+      case 'compact':
+        return textResponse(await generateUtilityText(request.payload.compactionPrompt, 0.2));
 
       case 'summarize':
       case 'summarize-follow-up': {
-        const { prompt, model } = payload;
-        const stream = await ai.models.generateContentStream({
-            model: model, 
-            contents: prompt,
-        });
-        const webStream = geminiStreamToWebStream(stream, (chunk) => chunk.text);
-        return new Response(webStream, { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+        const { prompt, model } = request.payload;
+        const modelInfo = requireModel(model);
+        const summaryRequest: ChatRequest = {
+            model: modelInfo,
+            messages: [{ role: 'user', parts: [{ text: prompt }] }],
+            params: clampGenerationParams(modelInfo, { candidateCount: 1 }),
+            signal: upstreamController.signal,
+        };
+        const startEvents = () => getProvider(modelInfo).streamChat(summaryRequest);
+        return new Response(await toEventStream(startEvents, upstreamController, user, recordStreamUsage(summaryRequest)), { headers: STREAM_HEADERS });
       }
 
-      default:
-        return new Response(JSON.stringify({ error: 'Invalid proxy type' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
     }
-  } catch (error: any) {
-    console.error(`Error in /api/proxy`, error);
-    // Attempt to parse a more specific error message if available
-    let errorMessage = 'An internal server error occurred';
-    if (error && error.message) {
-      errorMessage = error.message;
-      try {
-        // Errors from the API client might be JSON strings
-        const parsedError = JSON.parse(error.message);
-        if (parsedError.error && parsedError.error.message) {
-            errorMessage = parsedError.error.message;
-        }
-      } catch (e) {
-        // Not a JSON string, use the original message
-      }
+  } catch (error) {
+    const { status, code, message, path } = classifyError(error);
+    // Invalid requests are the client's to fix; everything else is worth logging.
+    if (status !== 400 && status !== 413) {
+      console.error(`Error in /api/proxy for user "${user.id}" (${code})`, error);
     }
-    return new Response(JSON.stringify({ error: errorMessage }), { status: 500, headers: { 'Content-Type': 'application/json' } });
+    return errorResponse(status, code, message, path);
   }
 }
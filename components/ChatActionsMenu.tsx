@@ -0,0 +1,160 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { MoreHorizontal, Pencil, Copy, Pin, PinOff, Folder, Check, Tag, Archive, ArchiveRestore, Trash2 } from 'lucide-react';
+import { StoredChat, ChatFolder } from '../types';
+import { normalizeTag } from '../services/chatOrganizationService';
+
+export type ChatOrganizationUpdate = Partial<Pick<StoredChat, 'isPinned' | 'folderId' | 'tags' | 'isArchived'>>;
+
+interface ChatActionsMenuProps {
+  chat: StoredChat;
+  folders: ChatFolder[];
+  knownTags: string[];
+  onUpdateChat: (updates: ChatOrganizationUpdate) => void;
+  onRename: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+const menuItemClasses = "w-full flex items-center px-3 py-1.5 text-sm text-[var(--text-primary)] hover:bg-[var(--surface-3)] focus:outline-none focus:bg-[var(--surface-3)]";
+const menuLabelClasses = "px-3 pt-2 pb-1 text-[10px] font-semibold uppercase tracking-wide text-[var(--text-placeholder)]";
+
+const ChatActionsMenu: React.FC<ChatActionsMenuProps> = ({ chat, folders, knownTags, onUpdateChat, onRename, onDuplicate, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newTag, setNewTag] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+  const chatTags = chat.tags || [];
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const runAndClose = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  const toggleTag = (tag: string) => {
+    onUpdateChat({ tags: chatTags.includes(tag) ? chatTags.filter(t => t !== tag) : [...chatTags, tag].sort() });
+  };
+
+  const addNewTag = () => {
+    const tag = normalizeTag(newTag);
+    setNewTag('');
+    if (tag && !chatTags.includes(tag)) {
+      onUpdateChat({ tags: [...chatTags, tag].sort() });
+    }
+  };
+
+  const tagOptions = Array.from(new Set([...knownTags, ...chatTags])).sort();
+
+  return (
+    <div className="relative flex-shrink-0" ref={menuRef} onClick={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="ml-1 p-1 opacity-60 group-hover:opacity-100 rounded-full hover:bg-[var(--surface-active)] focus:opacity-100 focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+        aria-label={`Actions for chat: ${chat.title}`}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <MoreHorizontal className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-1 w-56 max-h-96 overflow-y-auto bg-[var(--background)] border border-[var(--border-color-light)] rounded-lg shadow-lg py-1 z-40"
+          role="menu"
+        >
+          <button onClick={() => runAndClose(onRename)} className={menuItemClasses} role="menuitem">
+            <Pencil className="w-4 h-4 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+            Rename
+          </button>
+          <button onClick={() => runAndClose(onDuplicate)} className={menuItemClasses} role="menuitem">
+            <Copy className="w-4 h-4 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+            Duplicate
+          </button>
+          <button onClick={() => runAndClose(() => onUpdateChat({ isPinned: !chat.isPinned }))} className={menuItemClasses} role="menuitem">
+            {chat.isPinned
+              ? <PinOff className="w-4 h-4 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+              : <Pin className="w-4 h-4 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />}
+            {chat.isPinned ? 'Unpin' : 'Pin to top'}
+          </button>
+
+          {folders.length > 0 && (
+            <>
+              <div className={menuLabelClasses}>Move to folder</div>
+              {[{ id: null, name: 'No folder' }, ...folders].map(folder => {
+                const isCurrent = (chat.folderId ?? null) === folder.id;
+                return (
+                  <button
+                    key={folder.id ?? 'none'}
+                    onClick={() => runAndClose(() => onUpdateChat({ folderId: folder.id }))}
+                    className={menuItemClasses}
+                    role="menuitemradio"
+                    aria-checked={isCurrent}
+                  >
+                    <Folder className="w-4 h-4 mr-2 text-[var(--primary)] flex-shrink-0" strokeWidth={1.5} aria-hidden="true" />
+                    <span className="truncate flex-1 text-left">{folder.name}</span>
+                    {isCurrent && <Check className="w-3.5 h-3.5 ml-1 flex-shrink-0" aria-hidden="true" />}
+                  </button>
+                );
+              })}
+            </>
+          )}
+
+          <div className={menuLabelClasses}>Tags</div>
+          {tagOptions.map(tag => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              className={menuItemClasses}
+              role="menuitemcheckbox"
+              aria-checked={chatTags.includes(tag)}
+            >
+              <Tag className="w-4 h-4 mr-2 text-[var(--primary)] flex-shrink-0" strokeWidth={1.5} aria-hidden="true" />
+              <span className="truncate flex-1 text-left">{tag}</span>
+              {chatTags.includes(tag) && <Check className="w-3.5 h-3.5 ml-1 flex-shrink-0" aria-hidden="true" />}
+            </button>
+          ))}
+          <div className="px-3 py-1.5">
+            <input
+              type="text"
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addNewTag();
+                } else if (e.key === 'Escape') {
+                  setIsOpen(false);
+                }
+              }}
+              placeholder="Add a tag and press Enter"
+              className="w-full bg-[var(--surface-1)] border border-[var(--border-color)] rounded-md px-2 py-1 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-placeholder)] focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+              aria-label="New tag"
+            />
+          </div>
+
+          <div className="border-t border-[var(--border-color)] my-1" />
+          <button onClick={() => runAndClose(() => onUpdateChat({ isArchived: !chat.isArchived }))} className={menuItemClasses} role="menuitem">
+            {chat.isArchived
+              ? <ArchiveRestore className="w-4 h-4 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+              : <Archive className="w-4 h-4 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />}
+            {chat.isArchived ? 'Unarchive' : 'Archive'}
+          </button>
+          <button onClick={() => runAndClose(onDelete)} className={`${menuItemClasses} !text-red-400`} role="menuitem">
+            <Trash2 className="w-4 h-4 mr-2" strokeWidth={1.5} aria-hidden="true" />
+            Move to trash
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatActionsMenu;
@@ -0,0 +1,66 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, FileText, FileCode, FileJson } from 'lucide-react';
+import { ChatExportFormat } from '../services/chatExportService';
+
+interface ChatExportMenuProps {
+  onExport: (format: ChatExportFormat) => void;
+  disabled?: boolean;
+}
+
+const exportOptions: { format: ChatExportFormat; label: string; Icon: React.ElementType }[] = [
+  { format: 'markdown', label: 'Markdown (.md)', Icon: FileText },
+  { format: 'html', label: 'Web page (.html)', Icon: FileCode },
+  { format: 'json', label: 'JSON (lossless)', Icon: FileJson },
+];
+
+const ChatExportMenu: React.FC<ChatExportMenuProps> = ({ onExport, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="p-2 rounded-full text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--surface-3)] disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+        aria-label="Export chat"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title="Export chat"
+      >
+        <Download className="w-5 h-5" strokeWidth={1.5} />
+      </button>
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-1 w-48 bg-[var(--background)] border border-[var(--border-color-light)] rounded-lg shadow-lg py-1 z-30"
+          role="menu"
+        >
+          {exportOptions.map(({ format, label, Icon }) => (
+            <button
+              key={format}
+              onClick={() => { setIsOpen(false); onExport(format); }}
+              className="w-full flex items-center px-3 py-2 text-sm text-[var(--text-primary)] hover:bg-[var(--surface-3)] focus:outline-none focus:bg-[var(--surface-3)]"
+              role="menuitem"
+            >
+              <Icon className="w-4 h-4 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatExportMenu;
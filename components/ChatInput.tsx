@@ -1,18 +1,63 @@
 
-import React, { useState, ChangeEvent, FormEvent, KeyboardEvent, useRef, useEffect } from 'react';
-import { ArrowUp } from 'lucide-react';
+import React, { useState, ChangeEvent, FormEvent, KeyboardEvent, ClipboardEvent, DragEvent, useRef, useEffect } from 'react';
+import { ArrowUp, Square, Paperclip, X, FileText } from 'lucide-react';
+import { MessageAttachment, FileUploadError } from '../types';
 
 interface ChatInputProps {
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, attachments: MessageAttachment[]) => void;
+  onStopGenerating: () => void;
   isLoading: boolean;
+  supportedAttachmentTypes: string[]; // MIME types the current model accepts
 }
 
+// For all of a message's files together. Base64 makes them a third larger on the way,
+// which keeps a message within MAX_PROXY_REQUEST_BYTES.
+const MAX_ATTACHMENT_SIZE_MB = 2.5;
+const MAX_ATTACHMENT_SIZE_BYTES = MAX_ATTACHMENT_SIZE_MB * 1024 * 1024;
+const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+
+// Browsers often report an empty MIME type for text formats, so fall back to the extension.
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  pdf: 'application/pdf',
+};
+
+const resolveMimeType = (file: File, supportedTypes: string[]): string | null => {
+  if (supportedTypes.includes(file.type)) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const mimeType = EXTENSION_MIME_TYPES[extension];
+  return mimeType && supportedTypes.includes(mimeType) ? mimeType : null;
+};
+
+const readFileAsBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.substring(dataUrl.indexOf(',') + 1));
+    };
+    reader.onerror = () => {
+      reject({ message: `Failed to read "${file.name}".` } as FileUploadError);
+    };
+    reader.readAsDataURL(file);
+  });
+};
+
 const ChatInput: React.FC<ChatInputProps> = ({
   onSendMessage,
+  onStopGenerating,
   isLoading,
+  supportedAttachmentTypes,
 }) => {
   const [inputText, setInputText] = useState('');
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (textareaRef.current) {
@@ -35,11 +80,93 @@ const ChatInput: React.FC<ChatInputProps> = ({
     setInputText(event.target.value);
   };
 
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setAttachmentError(null);
+
+    const availableSlots = MAX_ATTACHMENTS_PER_MESSAGE - attachments.length;
+    if (files.length > availableSlots) {
+      setAttachmentError(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message.`);
+      files = files.slice(0, Math.max(0, availableSlots));
+    }
+
+    const newAttachments: MessageAttachment[] = [];
+    let totalSize = attachments.reduce((sum, attachment) => sum + attachment.size, 0);
+    for (const file of files) {
+      const mimeType = resolveMimeType(file, supportedAttachmentTypes);
+      if (!mimeType) {
+        setAttachmentError(`"${file.name}" is not supported by the current model.`);
+        continue;
+      }
+      if (file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+        setAttachmentError(`"${file.name}" is too large. Maximum size is ${MAX_ATTACHMENT_SIZE_MB}MB.`);
+        continue;
+      }
+      if (totalSize + file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+        setAttachmentError(`"${file.name}" was not added. Attachments on one message can total up to ${MAX_ATTACHMENT_SIZE_MB}MB.`);
+        continue;
+      }
+      try {
+        const data = await readFileAsBase64(file);
+        newAttachments.push({
+          id: `attachment-${Date.now()}-${newAttachments.length}`,
+          name: file.name || 'pasted-file',
+          mimeType,
+          size: file.size,
+          data,
+        });
+        totalSize += file.size;
+      } catch (err) {
+        const fileError = err as FileUploadError;
+        setAttachmentError(fileError.message || 'Error reading file.');
+      }
+    }
+    if (newAttachments.length > 0) {
+      setAttachments(prev => [...prev, ...newAttachments]);
+    }
+  };
+
+  const removeAttachment = (attachmentId: string) => {
+    setAttachments(prev => prev.filter(attachment => attachment.id !== attachmentId));
+    setAttachmentError(null);
+  };
+
+  const handleFileInputChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    await addFiles(files);
+  };
+
+  const handlePaste = (event: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(event.clipboardData.files);
+    if (files.length > 0) {
+      event.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLFormElement>) => {
+    if (event.dataTransfer.types.includes('Files')) {
+      event.preventDefault();
+      setIsDragging(true);
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const canSubmit = inputText.trim() !== '' || attachments.length > 0;
+
   const handleSubmit = (event?: FormEvent<HTMLFormElement>) => {
     event?.preventDefault();
-    if (inputText.trim() && !isLoading) {
-      onSendMessage(inputText.trim());
+    if (canSubmit && !isLoading) {
+      onSendMessage(inputText.trim(), attachments);
       setInputText('');
+      setAttachments([]);
+      setAttachmentError(null);
     }
   };
 
@@ -51,61 +178,137 @@ const ChatInput: React.FC<ChatInputProps> = ({
   };
 
   return (
-    <form
-      onSubmit={handleSubmit}
-      className="
-        flex items-end w-full 
-        bg-[var(--surface-glass)] rounded-full
-        py-2 px-1 sm:px-1.5 
-        transition-all duration-150 ease-in-out
-        backdrop-blur-xl border border-[var(--border-glass)] shadow-lg
-      "
-    >
-      <textarea
-        ref={textareaRef}
-        rows={1}
-        value={inputText}
-        onChange={handleChange}
-        onKeyDown={handleKeyDown}
-        placeholder="Message NeuraMorphosis..."
-        disabled={isLoading}
-        className="
-          flex-grow bg-transparent text-[var(--text-primary)] 
-          border-none focus:border-none rounded-lg 
-          py-1.5 pl-1.5 pr-1 
-          focus:ring-0 focus:outline-none focus:shadow-none 
-          disabled:opacity-60 placeholder-[var(--text-placeholder)] 
-          resize-none overflow-y-hidden
-          mr-2 
-        "
-        style={{ minHeight: '2.5rem', maxHeight: '9rem' }}
-        aria-label="Chat message input"
-      />
-
-      <button
-        type="submit"
-        disabled={isLoading || !inputText.trim()}
-        className="
-          bg-[var(--primary)] text-[var(--text-on-primary)] rounded-full 
-          hover:bg-[var(--primary-hover)] transition-colors 
-          disabled:opacity-60 disabled:cursor-not-allowed 
-          flex items-center justify-center 
-          w-9 h-9 sm:w-10 sm:h-10 flex-shrink-0 
-          focus:outline-none focus:ring-2 focus:ring-[var(--ring)] focus:ring-offset-2 focus:ring-offset-[var(--surface-2)]
-        "
-        aria-label={isLoading ? "Sending message" : "Send message"}
+    <div className="w-full">
+      {(attachments.length > 0 || attachmentError) && (
+        <div className="mb-2 px-2 space-y-1.5">
+          {attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {attachments.map(attachment => (
+                <div key={attachment.id} className="relative flex items-center bg-[var(--surface-glass)] backdrop-blur-xl border border-[var(--border-glass)] rounded-lg p-1 pr-6 max-w-[12rem]">
+                  {attachment.mimeType.startsWith('image/') ? (
+                    <img src={`data:${attachment.mimeType};base64,${attachment.data}`} alt={attachment.name} className="w-10 h-10 object-cover rounded-md" />
+                  ) : (
+                    <FileText className="w-5 h-5 m-2 text-[var(--primary)] flex-shrink-0" strokeWidth={1.5} aria-hidden="true" />
+                  )}
+                  <span className="ml-1.5 text-xs text-[var(--text-primary)] truncate">{attachment.name}</span>
+                  <button
+                    type="button"
+                    onClick={() => removeAttachment(attachment.id)}
+                    className="absolute top-0.5 right-0.5 p-0.5 rounded-full text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--surface-3)] focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+                    aria-label={`Remove attachment ${attachment.name}`}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          {attachmentError && (
+            <p className="text-xs text-red-400" role="alert">{attachmentError}</p>
+          )}
+        </div>
+      )}
+      <form
+        onSubmit={handleSubmit}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`
+          flex items-end w-full 
+          bg-[var(--surface-glass)] rounded-full
+          py-2 px-1 sm:px-1.5 
+          transition-all duration-150 ease-in-out
+          backdrop-blur-xl border shadow-lg
+          ${isDragging ? 'border-[var(--primary)] ring-2 ring-[var(--ring)]' : 'border-[var(--border-glass)]'}
+        `}
       >
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={[
+            ...supportedAttachmentTypes,
+            ...Object.keys(EXTENSION_MIME_TYPES).filter(ext => supportedAttachmentTypes.includes(EXTENSION_MIME_TYPES[ext])).map(ext => `.${ext}`),
+          ].join(',')}
+          onChange={handleFileInputChange}
+          className="hidden"
+          aria-hidden="true"
+          tabIndex={-1}
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={attachments.length >= MAX_ATTACHMENTS_PER_MESSAGE || supportedAttachmentTypes.length === 0}
+          className="
+            text-[var(--text-secondary)] hover:text-[var(--text-primary)] rounded-full 
+            hover:bg-[var(--surface-3)] transition-colors 
+            disabled:opacity-40 disabled:cursor-not-allowed 
+            flex items-center justify-center 
+            w-9 h-9 sm:w-10 sm:h-10 flex-shrink-0 
+            focus:outline-none focus:ring-1 focus:ring-[var(--ring)]
+          "
+          aria-label="Attach files"
+          title="Attach images, PDFs or text files"
+        >
+          <Paperclip className="w-4 h-4 sm:w-5 sm:h-5" />
+        </button>
+
+        <textarea
+          ref={textareaRef}
+          rows={1}
+          value={inputText}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          placeholder="Message NeuraMorphosis..."
+          className="
+            flex-grow bg-transparent text-[var(--text-primary)] 
+            border-none focus:border-none rounded-lg 
+            py-1.5 pl-1.5 pr-1 
+            focus:ring-0 focus:outline-none focus:shadow-none 
+            disabled:opacity-60 placeholder-[var(--text-placeholder)] 
+            resize-none overflow-y-hidden
+            mr-2 
+          "
+          style={{ minHeight: '2.5rem', maxHeight: '9rem' }}
+          aria-label="Chat message input"
+        />
+
         {isLoading ? (
-          <svg className="animate-spin h-5 w-5 text-[var(--text-on-primary)]" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" role="status" aria-live="polite">
-            <title>Loading</title>
-            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-          </svg>
+          <button
+            type="button"
+            onClick={onStopGenerating}
+            className="
+              bg-[var(--primary)] text-[var(--text-on-primary)] rounded-full 
+              hover:bg-[var(--primary-hover)] transition-colors 
+              flex items-center justify-center 
+              w-9 h-9 sm:w-10 sm:h-10 flex-shrink-0 
+              focus:outline-none focus:ring-2 focus:ring-[var(--ring)] focus:ring-offset-2 focus:ring-offset-[var(--surface-2)]
+            "
+            aria-label="Stop generating response"
+            title="Stop generating"
+          >
+            <Square className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="currentColor" />
+          </button>
         ) : (
-          <ArrowUp className="w-4 h-4 sm:w-5 sm:h-5" />
+          <button
+            type="submit"
+            disabled={!canSubmit}
+            className="
+              bg-[var(--primary)] text-[var(--text-on-primary)] rounded-full 
+              hover:bg-[var(--primary-hover)] transition-colors 
+              disabled:opacity-60 disabled:cursor-not-allowed 
+              flex items-center justify-center 
+              w-9 h-9 sm:w-10 sm:h-10 flex-shrink-0 
+              focus:outline-none focus:ring-2 focus:ring-[var(--ring)] focus:ring-offset-2 focus:ring-offset-[var(--surface-2)]
+            "
+            aria-label="Send message"
+          >
+            <ArrowUp className="w-4 h-4 sm:w-5 sm:h-5" />
+          </button>
         )}
-      </button>
-    </form>
+      </form>
+    </div>
   );
 };
 
@@ -0,0 +1,116 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { UserRound, ChevronDown } from 'lucide-react';
+import { Persona, StoredChat } from '../types';
+import { DEFAULT_PERSONA_NAME, findPersona, getChatPersonaLabel } from '../services/personaService';
+
+export type ChatInstructionsUpdate = Partial<Pick<StoredChat, 'personaId' | 'systemInstructionOverride'>>;
+
+interface ChatInstructionsMenuProps {
+  chat: StoredChat;
+  personas: Persona[];
+  onUpdateChat: (updates: ChatInstructionsUpdate) => void;
+  disabled?: boolean;
+}
+
+const ChatInstructionsMenu: React.FC<ChatInstructionsMenuProps> = ({ chat, personas, onUpdateChat, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [overrideDraft, setOverrideDraft] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const open = () => {
+    setOverrideDraft(chat.systemInstructionOverride || '');
+    setIsOpen(true);
+  };
+
+  const saveOverride = () => {
+    onUpdateChat({ systemInstructionOverride: overrideDraft.trim() || undefined });
+    setIsOpen(false);
+  };
+
+  const persona = findPersona(personas, chat.personaId);
+  const label = getChatPersonaLabel(chat, personas);
+
+  return (
+    <div className="relative min-w-0" ref={menuRef}>
+      <button
+        onClick={() => isOpen ? setIsOpen(false) : open()}
+        disabled={disabled}
+        className="flex items-center gap-1 max-w-[10rem] sm:max-w-[14rem] px-2 py-1 rounded-full text-xs text-[var(--text-secondary)] bg-[var(--surface-3)] hover:text-[var(--text-primary)] disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        title="Persona and instructions for this chat"
+      >
+        <UserRound className="w-3.5 h-3.5 flex-shrink-0" aria-hidden="true" />
+        <span className="truncate">{label}</span>
+        <ChevronDown className="w-3 h-3 flex-shrink-0" aria-hidden="true" />
+      </button>
+      {isOpen && (
+        <div
+          className="absolute left-0 mt-1 w-72 sm:w-96 bg-[var(--background)] border border-[var(--border-color-light)] rounded-lg shadow-lg p-3 z-30 space-y-3"
+          role="dialog"
+          aria-label="Chat instructions"
+        >
+          <div>
+            <label htmlFor="chat-persona-select" className="block text-xs text-[var(--text-secondary)] mb-1">Persona</label>
+            <select
+              id="chat-persona-select"
+              value={chat.personaId || ''}
+              onChange={(e) => onUpdateChat({ personaId: e.target.value || null })}
+              className="w-full bg-[var(--surface-2)] text-[var(--text-primary)] border border-[var(--border-color-light)] rounded-md p-2 focus:ring-1 focus:ring-[var(--ring)] focus:border-[var(--ring)] focus:outline-none text-sm"
+            >
+              <option value="">{DEFAULT_PERSONA_NAME} (default)</option>
+              {personas.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="chat-instructions-override" className="block text-xs text-[var(--text-secondary)] mb-1">
+              Instructions for this chat only
+            </label>
+            <textarea
+              id="chat-instructions-override"
+              value={overrideDraft}
+              onChange={(e) => setOverrideDraft(e.target.value)}
+              rows={6}
+              placeholder={persona?.instructions || 'Leave empty to use the persona\'s instructions.'}
+              className="w-full bg-[var(--surface-2)] text-[var(--text-primary)] placeholder-[var(--text-placeholder)] border border-[var(--border-color-light)] rounded-md p-2 focus:ring-1 focus:ring-[var(--ring)] focus:border-[var(--ring)] focus:outline-none text-sm resize-y"
+            />
+            <p className="text-[10px] xs:text-xs text-[var(--text-secondary)] mt-1">
+              Replaces the persona's instructions from the next message on. Earlier replies are not changed.
+            </p>
+          </div>
+          <div className="flex justify-end gap-2">
+            {chat.systemInstructionOverride && (
+              <button
+                onClick={() => { onUpdateChat({ systemInstructionOverride: undefined }); setIsOpen(false); }}
+                className="px-2.5 py-1 rounded-md text-xs font-medium border bg-[var(--surface-3)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] border-[var(--border-color-light)] focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+              >
+                Use persona's instructions
+              </button>
+            )}
+            <button
+              onClick={saveOverride}
+              className="px-2.5 py-1 rounded-md text-xs font-medium bg-[var(--primary)] text-[var(--text-on-primary)] hover:opacity-90 focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatInstructionsMenu;
@@ -0,0 +1,426 @@
+import React, { useState, useMemo } from 'react';
+import { ChevronDown, ChevronRight, Folder, FolderPlus, Pencil, Trash2, Archive, X, ListChecks, CheckSquare, Square, RotateCcw, ArrowLeft } from 'lucide-react';
+import { StoredChat, ChatFolder } from '../types';
+import { buildChatListSections, getAllTags, getTrashExpiry, isInTrash, ChatListView } from '../services/chatOrganizationService';
+import ChatActionsMenu, { ChatOrganizationUpdate } from './ChatActionsMenu';
+
+interface ChatListProps {
+  chats: StoredChat[];
+  folders: ChatFolder[];
+  currentChatId: string | null;
+  trashRetentionDays: number;
+  getChatLabel: (chat: StoredChat) => string;
+  onSelectChat: (chatId: string) => void;
+  onUpdateChat: (chatId: string, updates: ChatOrganizationUpdate) => void;
+  onRenameChat: (chatId: string, title: string) => void;
+  onDuplicateChat: (chatId: string) => void;
+  onDeleteChats: (chatIds: string[]) => void; // Moves to the trash
+  onRestoreChats: (chatIds: string[]) => void;
+  onPermanentlyDeleteChats: (chatIds: string[]) => void;
+  onCreateFolder: (name: string) => void;
+  onUpdateFolder: (folderId: string, updates: Partial<Omit<ChatFolder, 'id'>>) => void;
+  onDeleteFolder: (folderId: string) => void;
+}
+
+const sectionHeaderClasses = "flex items-center px-1.5 pt-3 pb-1 text-[11px] font-semibold uppercase tracking-wide text-[var(--text-placeholder)]";
+const inlineInputClasses = "flex-1 min-w-0 bg-[var(--background)] border border-[var(--border-color)] rounded-md px-2 py-1 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-placeholder)] focus:outline-none focus:ring-1 focus:ring-[var(--ring)]";
+const toolbarButtonClasses = "flex items-center text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] focus:outline-none focus:underline";
+const iconButtonClasses = "p-1 rounded-md text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--surface-3)] focus:outline-none focus:ring-1 focus:ring-[var(--ring)]";
+
+const formatTimeLeft = (expiry: Date): string => {
+  const hoursLeft = Math.max(0, Math.ceil((expiry.getTime() - Date.now()) / (60 * 60 * 1000)));
+  if (hoursLeft < 24) return `${hoursLeft} hour${hoursLeft === 1 ? '' : 's'}`;
+  const daysLeft = Math.ceil(hoursLeft / 24);
+  return `${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+};
+
+const ChatList: React.FC<ChatListProps> = ({
+  chats,
+  folders,
+  currentChatId,
+  trashRetentionDays,
+  getChatLabel,
+  onSelectChat,
+  onUpdateChat,
+  onRenameChat,
+  onDuplicateChat,
+  onDeleteChats,
+  onRestoreChats,
+  onPermanentlyDeleteChats,
+  onCreateFolder,
+  onUpdateFolder,
+  onDeleteFolder,
+}) => {
+  const [view, setView] = useState<ChatListView>('chats');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [newFolderName, setNewFolderName] = useState<string | null>(null); // null while the input is hidden
+  const [renamingFolderId, setRenamingFolderId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [renamingChatId, setRenamingChatId] = useState<string | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedChatIds, setSelectedChatIds] = useState<Set<string>>(new Set());
+
+  const knownTags = useMemo(() => getAllTags(chats), [chats]);
+  // A selected tag disappears from the filter once no chat carries it any more.
+  const activeSelectedTags = useMemo(() => selectedTags.filter(tag => knownTags.includes(tag)), [selectedTags, knownTags]);
+  const archivedCount = useMemo(() => chats.filter(chat => chat.isArchived && !isInTrash(chat)).length, [chats]);
+  const trashCount = useMemo(() => chats.filter(isInTrash).length, [chats]);
+  const sections = useMemo(
+    () => buildChatListSections(chats, folders, { view, selectedTags: activeSelectedTags }),
+    [chats, folders, view, activeSelectedTags]
+  );
+  const visibleChatIds = useMemo(() => new Set(sections.flatMap(section => section.chats.map(chat => chat.id))), [sections]);
+  // Chats that left the view (restored, deleted elsewhere) drop out of the selection.
+  const selectedVisibleIds = Array.from(selectedChatIds).filter(id => visibleChatIds.has(id));
+
+  const switchView = (nextView: ChatListView) => {
+    setView(nextView);
+    setIsSelecting(false);
+    setSelectedChatIds(new Set());
+    setNewFolderName(null);
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedChatIds(new Set());
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const toggleChatSelected = (chatId: string) => {
+    setSelectedChatIds(prev => {
+      const next = new Set(prev);
+      if (next.has(chatId)) {
+        next.delete(chatId);
+      } else {
+        next.add(chatId);
+      }
+      return next;
+    });
+  };
+
+  const confirmPermanentDelete = (chatIds: string[]) => {
+    if (chatIds.length === 0) return;
+    const what = chatIds.length === 1 ? 'this chat' : `${chatIds.length} chats`;
+    if (window.confirm(`Permanently delete ${what}? This cannot be undone.`)) {
+      onPermanentlyDeleteChats(chatIds);
+      stopSelecting();
+    }
+  };
+
+  const submitNewFolder = () => {
+    if (newFolderName && newFolderName.trim()) {
+      onCreateFolder(newFolderName.trim());
+    }
+    setNewFolderName(null);
+  };
+
+  const submitFolderRename = () => {
+    if (renamingFolderId && renameText.trim()) {
+      onUpdateFolder(renamingFolderId, { name: renameText.trim() });
+    }
+    setRenamingFolderId(null);
+  };
+
+  const submitChatRename = () => {
+    if (renamingChatId && renameText.trim()) {
+      onRenameChat(renamingChatId, renameText.trim());
+    }
+    setRenamingChatId(null);
+  };
+
+  const renderRenameInput = (onSubmit: () => void, onCancel: () => void, label: string) => (
+    <input
+      autoFocus
+      value={renameText}
+      onChange={(e) => setRenameText(e.target.value)}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Enter') onSubmit();
+        else if (e.key === 'Escape') onCancel();
+      }}
+      onBlur={onSubmit}
+      className={inlineInputClasses}
+      aria-label={label}
+    />
+  );
+
+  const renderTrashRow = (chat: StoredChat) => (
+    <div
+      key={chat.id}
+      className="flex items-center justify-between rounded-md p-2 sm:p-2.5 text-[var(--text-secondary)] border-l-4 border-transparent hover:bg-[var(--surface-3)]"
+    >
+      <span className="min-w-0 flex-1">
+        <span className="block truncate text-sm">{getChatLabel(chat)}</span>
+        <span className="block truncate text-[10px] text-[var(--text-placeholder)]">
+          Deleted for good in {formatTimeLeft(getTrashExpiry(chat, trashRetentionDays))}
+        </span>
+      </span>
+      <button onClick={() => onRestoreChats([chat.id])} className={iconButtonClasses} aria-label={`Restore chat: ${chat.title}`} title="Restore">
+        <RotateCcw className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => confirmPermanentDelete([chat.id])}
+        className={`${iconButtonClasses} hover:!text-red-400`}
+        aria-label={`Delete chat permanently: ${chat.title}`}
+        title="Delete permanently"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  const renderChatRow = (chat: StoredChat) => {
+    if (view === 'trash' && !isSelecting) return renderTrashRow(chat);
+
+    const isSelected = selectedChatIds.has(chat.id);
+    const handleActivate = () => isSelecting ? toggleChatSelected(chat.id) : onSelectChat(chat.id);
+    return (
+      <div
+        key={chat.id}
+        className={`flex items-center justify-between rounded-md cursor-pointer group transition-colors duration-150
+          ${currentChatId === chat.id && !isSelecting
+            ? 'bg-[var(--surface-active)] text-[var(--text-primary)] border-l-4 border-[var(--primary)] py-2 pr-2 pl-1.5 sm:py-2.5 sm:pr-2.5 sm:pl-1.5'
+            : 'p-2 sm:p-2.5 hover:bg-[var(--surface-3)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] border-l-4 border-transparent'
+          }`}
+        onClick={handleActivate}
+        role={isSelecting ? 'checkbox' : 'button'}
+        aria-checked={isSelecting ? isSelected : undefined}
+        tabIndex={0}
+        onKeyDown={(e) => e.key === 'Enter' && handleActivate()}
+        aria-current={currentChatId === chat.id && !isSelecting ? "page" : undefined}
+      >
+        {isSelecting && (isSelected
+          ? <CheckSquare className="w-4 h-4 mr-2 text-[var(--primary)] flex-shrink-0" aria-hidden="true" />
+          : <Square className="w-4 h-4 mr-2 flex-shrink-0" aria-hidden="true" />)}
+        {renamingChatId === chat.id ? (
+          renderRenameInput(submitChatRename, () => setRenamingChatId(null), 'Chat title')
+        ) : (
+          <span className="min-w-0 flex-1">
+            <span className="block truncate text-sm">{getChatLabel(chat)}</span>
+            {chat.tags && chat.tags.length > 0 && (
+              <span className="block truncate text-[10px] text-[var(--text-placeholder)]">{chat.tags.map(tag => `#${tag}`).join(' ')}</span>
+            )}
+          </span>
+        )}
+        {!isSelecting && renamingChatId !== chat.id && (
+          <ChatActionsMenu
+            chat={chat}
+            folders={folders}
+            knownTags={knownTags}
+            onUpdateChat={(updates) => onUpdateChat(chat.id, updates)}
+            onRename={() => { setRenamingChatId(chat.id); setRenameText(chat.title); }}
+            onDuplicate={() => onDuplicateChat(chat.id)}
+            onDelete={() => onDeleteChats([chat.id])}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const renderFolderHeader = (folder: ChatFolder, chatCount: number) => {
+    if (renamingFolderId === folder.id) {
+      return (
+        <div className="flex items-center gap-1 px-1.5 pt-3 pb-1">
+          {renderRenameInput(submitFolderRename, () => setRenamingFolderId(null), 'Folder name')}
+        </div>
+      );
+    }
+    return (
+      <div className={`${sectionHeaderClasses} group`}>
+        <button
+          onClick={() => onUpdateFolder(folder.id, { isCollapsed: !folder.isCollapsed })}
+          className="flex items-center flex-1 min-w-0 text-left uppercase hover:text-[var(--text-primary)] focus:outline-none focus:text-[var(--text-primary)]"
+          aria-expanded={!folder.isCollapsed}
+        >
+          {folder.isCollapsed ? <ChevronRight className="w-3.5 h-3.5 mr-0.5 flex-shrink-0" /> : <ChevronDown className="w-3.5 h-3.5 mr-0.5 flex-shrink-0" />}
+          <Folder className="w-3.5 h-3.5 mr-1 flex-shrink-0" strokeWidth={1.5} aria-hidden="true" />
+          <span className="truncate">{folder.name}</span>
+          <span className="ml-1 font-normal normal-case">({chatCount})</span>
+        </button>
+        <button
+          onClick={() => { setRenamingFolderId(folder.id); setRenameText(folder.name); }}
+          className="p-0.5 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-[var(--text-primary)] rounded focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+          aria-label={`Rename folder: ${folder.name}`}
+        >
+          <Pencil className="w-3 h-3" />
+        </button>
+        <button
+          onClick={() => onDeleteFolder(folder.id)}
+          className="p-0.5 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-400 rounded focus:outline-none focus:ring-1 focus:ring-red-500"
+          aria-label={`Delete folder: ${folder.name} (its chats are kept)`}
+          title="Delete folder (its chats are kept)"
+        >
+          <Trash2 className="w-3 h-3" />
+        </button>
+      </div>
+    );
+  };
+
+  const emptyMessages: Record<ChatListView, string> = {
+    chats: activeSelectedTags.length > 0 ? 'No chats match the selected tags.' : 'No chats yet.',
+    archived: 'No archived chats.',
+    trash: `The trash is empty. Deleted chats are kept here for ${trashRetentionDays} day${trashRetentionDays === 1 ? '' : 's'}.`,
+  };
+
+  return (
+    <div>
+      {view !== 'trash' && knownTags.length > 0 && (
+        <div className="flex flex-wrap gap-1 pb-1" role="group" aria-label="Filter chats by tag">
+          {knownTags.map(tag => {
+            const isSelected = activeSelectedTags.includes(tag);
+            return (
+              <button
+                key={tag}
+                onClick={() => toggleTagFilter(tag)}
+                className={`px-2 py-0.5 rounded-full text-[11px] border transition-colors focus:outline-none focus:ring-1 focus:ring-[var(--ring)]
+                  ${isSelected
+                    ? 'bg-[var(--primary)] border-[var(--primary)] text-[var(--text-on-primary)]'
+                    : 'border-[var(--border-color)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--surface-3)]'
+                  }`}
+                aria-pressed={isSelected}
+              >
+                #{tag}
+              </button>
+            );
+          })}
+          {activeSelectedTags.length > 0 && (
+            <button
+              onClick={() => setSelectedTags([])}
+              className="px-1.5 py-0.5 rounded-full text-[11px] text-[var(--text-secondary)] hover:text-[var(--text-primary)] focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+              aria-label="Clear tag filter"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2 px-1.5">
+        {view === 'chats' ? (
+          <span className="flex items-center gap-3">
+            <button onClick={() => switchView('archived')} className={toolbarButtonClasses}>
+              <Archive className="w-3.5 h-3.5 mr-1" strokeWidth={1.5} aria-hidden="true" />
+              Archived ({archivedCount})
+            </button>
+            <button onClick={() => switchView('trash')} className={toolbarButtonClasses}>
+              <Trash2 className="w-3.5 h-3.5 mr-1" strokeWidth={1.5} aria-hidden="true" />
+              Trash ({trashCount})
+            </button>
+          </span>
+        ) : (
+          <button onClick={() => switchView('chats')} className={toolbarButtonClasses}>
+            <ArrowLeft className="w-3.5 h-3.5 mr-1" strokeWidth={1.5} aria-hidden="true" />
+            Back to chats
+          </button>
+        )}
+        <span className="flex items-center">
+          {view === 'trash' && trashCount > 0 && !isSelecting && (
+            <button
+              onClick={() => confirmPermanentDelete(chats.filter(isInTrash).map(chat => chat.id))}
+              className={`${toolbarButtonClasses} hover:!text-red-400 mr-1`}
+            >
+              Empty trash
+            </button>
+          )}
+          {visibleChatIds.size > 0 && (
+            <button
+              onClick={() => isSelecting ? stopSelecting() : setIsSelecting(true)}
+              className={iconButtonClasses}
+              aria-label={isSelecting ? 'Cancel selection' : 'Select chats'}
+              aria-pressed={isSelecting}
+              title={isSelecting ? 'Cancel selection' : 'Select chats'}
+            >
+              <ListChecks className="w-4 h-4" strokeWidth={1.5} />
+            </button>
+          )}
+          {view === 'chats' && (
+            <button onClick={() => setNewFolderName('')} className={iconButtonClasses} aria-label="New folder" title="New folder">
+              <FolderPlus className="w-4 h-4" strokeWidth={1.5} />
+            </button>
+          )}
+        </span>
+      </div>
+
+      {isSelecting && (
+        <div className="flex items-center justify-between gap-2 mx-1.5 mt-2 p-1.5 rounded-md bg-[var(--surface-3)] text-xs" role="toolbar" aria-label="Selected chats">
+          <span className="text-[var(--text-secondary)]">{selectedVisibleIds.length} selected</span>
+          <span className="flex items-center gap-2">
+            <button
+              onClick={() => setSelectedChatIds(new Set(visibleChatIds))}
+              className="text-[var(--text-secondary)] hover:text-[var(--text-primary)] underline focus:outline-none"
+            >
+              All
+            </button>
+            {view === 'trash' ? (
+              <>
+                <button
+                  onClick={() => { onRestoreChats(selectedVisibleIds); stopSelecting(); }}
+                  disabled={selectedVisibleIds.length === 0}
+                  className="font-medium text-[var(--primary)] hover:underline disabled:opacity-40 disabled:no-underline focus:outline-none"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => confirmPermanentDelete(selectedVisibleIds)}
+                  disabled={selectedVisibleIds.length === 0}
+                  className="font-medium text-red-400 hover:underline disabled:opacity-40 disabled:no-underline focus:outline-none"
+                >
+                  Delete forever
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => { onDeleteChats(selectedVisibleIds); stopSelecting(); }}
+                disabled={selectedVisibleIds.length === 0}
+                className="font-medium text-red-400 hover:underline disabled:opacity-40 disabled:no-underline focus:outline-none"
+              >
+                Delete
+              </button>
+            )}
+          </span>
+        </div>
+      )}
+
+      {newFolderName !== null && view === 'chats' && (
+        <div className="flex items-center gap-1 px-1.5 pt-2">
+          <input
+            autoFocus
+            value={newFolderName}
+            onChange={(e) => setNewFolderName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitNewFolder();
+              else if (e.key === 'Escape') setNewFolderName(null);
+            }}
+            onBlur={submitNewFolder}
+            placeholder="Folder name"
+            className={inlineInputClasses}
+            aria-label="New folder name"
+          />
+        </div>
+      )}
+
+      {sections.length === 0 && (
+        <p className="text-xs text-[var(--text-placeholder)] px-1.5 pt-3">{emptyMessages[view]}</p>
+      )}
+
+      {sections.map(section => (
+        <section key={section.id} aria-label={section.label}>
+          {section.folder
+            ? renderFolderHeader(section.folder, section.chats.length)
+            : <h3 className={sectionHeaderClasses}>{section.label}</h3>}
+          {!section.folder?.isCollapsed && (
+            <div className="space-y-1">
+              {section.chats.map(renderChatRow)}
+            </div>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default ChatList;
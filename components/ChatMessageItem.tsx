@@ -1,122 +1,234 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { ChatMessageContent, Sender } from '../types';
+import { Languages, CircleStop, ChevronLeft, ChevronRight, RefreshCw, RotateCcw, Pencil, FileText, AlertTriangle } from 'lucide-react';
+import { ChatMessageContent, ErrorCategory, MessageAttachment, Sender } from '../types';
+import { markdownComponents } from './markdownComponents';
+import ThinkingModePanel from './ThinkingModePanel';
+import { describeFinishReason } from '../services/streamService';
+import { formatTokenCount } from '../services/usageService';
 
 interface ChatMessageItemProps {
   message: ChatMessageContent;
+  siblingIndex: number; // Position of this message among its alternate versions
+  siblingCount: number;
+  onSelectSibling: (offset: number) => void;
+  onRegenerate?: () => void;
+  onRetry?: () => void; // Set for failed replies
+  onEdit?: (newText: string) => void;
+  areActionsDisabled: boolean;
+  isHighlighted?: boolean; // Set briefly after jumping here from a search result
 }
 
-// Helper to get raw text content from a markdown AST node
-const getNodeText = (node: any): string => {
-  if (!node) return '';
-  if (node.type === 'text') {
-    return node.value || '';
-  }
-  if (node.children && Array.isArray(node.children)) {
-    return node.children.map(getNodeText).join('');
-  }
-  return '';
+const ERROR_TITLES: Record<ErrorCategory, string> = {
+  'rate-limit': 'Rate limit reached',
+  'overloaded': 'The model is overloaded',
+  'safety': 'Blocked by safety filters',
+  'invalid-request': 'The request was rejected',
+  'auth': 'Not authorized',
+  'network': 'Network error',
+  'unknown': 'Something went wrong',
 };
 
-// Helper to identify paragraphs that only contain bolded text, to treat them as headers.
-const isParagraphWithOnlyBold = (node: any): boolean => {
-  if (!node || node.type !== 'paragraph' || !node.children) return false;
+const actionButtonClasses = "p-1 rounded-md text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--surface-3)] disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-1 focus:ring-[var(--ring)]";
 
-  // Filter out empty text nodes (e.g., newlines) that the markdown-parser creates
-  const significantChildren = node.children.filter((child: any) =>
-    child.type === 'text' ? child.value.trim() !== '' : true
-  );
+interface BranchNavigatorProps {
+  siblingIndex: number;
+  siblingCount: number;
+  onSelectSibling: (offset: number) => void;
+  disabled: boolean;
+}
 
-  if (significantChildren.length === 0) return false;
+const BranchNavigator: React.FC<BranchNavigatorProps> = ({ siblingIndex, siblingCount, onSelectSibling, disabled }) => {
+  if (siblingCount <= 1) return null;
+  return (
+    <div className="flex items-center text-xs text-[var(--text-secondary)]">
+      <button
+        onClick={() => onSelectSibling(-1)}
+        disabled={disabled || siblingIndex <= 0}
+        className={actionButtonClasses}
+        aria-label="Show previous version"
+      >
+        <ChevronLeft className="w-3.5 h-3.5" />
+      </button>
+      <span className="tabular-nums px-0.5" aria-live="polite">{siblingIndex + 1} / {siblingCount}</span>
+      <button
+        onClick={() => onSelectSibling(1)}
+        disabled={disabled || siblingIndex >= siblingCount - 1}
+        className={actionButtonClasses}
+        aria-label="Show next version"
+      >
+        <ChevronRight className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
 
-  // Check if all significant children are 'strong' elements
-  return significantChildren.every(child => child.type === 'strong');
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 };
 
-const markdownComponents = {
-  p: ({ node, ...props }: any) => {
-    const isHeader = isParagraphWithOnlyBold(node);
-    const textContent = getNodeText(node).trim();
-    if (textContent === '') {
-      return null;
-    }
+// Browsers won't open a data: URL as a page, so an image opens from a temporary object URL.
+// It is revoked once the new tab has had ample time to load it.
+const openImageInNewTab = (attachment: MessageAttachment) => {
+  const bytes = Uint8Array.from(atob(attachment.data), char => char.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: attachment.mimeType }));
+  window.open(url, '_blank', 'noopener,noreferrer');
+  window.setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
 
-    return (
-      <div className="w-full">
-        <p
-          className={isHeader ? "text-xl font-semibold mt-4 mb-2" : "mb-4"}
-          {...props}
-        />
-      </div>
-    );
-  },
-  strong: ({ node, ...props }: any) => <strong className="font-semibold" {...props} />,
-  em: ({ node, ...props }: any) => <em className="italic" {...props} />,
-  ul: ({ node, ...props }: any) => <div className="w-full"><ul className="list-disc list-inside my-2 space-y-1 pl-4" {...props} /></div>,
-  ol: ({ node, ...props }: any) => <div className="w-full"><ol className="list-decimal list-inside my-2 space-y-1 pl-4" {...props} /></div>,
-  li: ({ node, ...props }: any) => {
-    // Do not render list items that are effectively empty (contain no visible text).
-    if (getNodeText(node).trim() === '') {
-      return null;
-    }
-    return <li className="mb-0.5" {...props} />;
-  },
-  a: ({ node, ...props }: any) => <a className="text-[var(--primary)] hover:text-[var(--primary-hover)] hover:underline" target="_blank" rel="noopener noreferrer" {...props} />,
-  pre: ({ node, ...props }: any) => <div className="w-full"><pre className="bg-black/30 border border-[var(--border-color)] p-3 my-2 rounded-md overflow-x-auto text-base" {...props} /></div>,
-  code({ node, inline, className, children, ...props }: any) {
-    if (!inline) { // For block code
+const AttachmentList: React.FC<{ attachments: MessageAttachment[] }> = ({ attachments }) => (
+  <div className="flex flex-wrap justify-end gap-2 mb-1.5 max-w-md sm:max-w-lg md:max-w-xl lg:max-w-2xl">
+    {attachments.map(attachment => {
+      const dataUrl = `data:${attachment.mimeType};base64,${attachment.data}`;
+      if (attachment.mimeType.startsWith('image/')) {
+        return (
+          <a
+            key={attachment.id}
+            href={dataUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={event => {
+              event.preventDefault();
+              openImageInNewTab(attachment);
+            }}
+            className="block focus:outline-none focus:ring-2 focus:ring-[var(--ring)] rounded-lg"
+          >
+            <img src={dataUrl} alt={attachment.name} className="max-h-48 max-w-[16rem] object-cover rounded-lg border border-[var(--border-color)]" />
+          </a>
+        );
+      }
       return (
-        <code className={`${className || ''} text-[var(--text-primary)] block`} {...props}>
-          {String(children).replace(/\n$/, '')}
-        </code>
+        <a
+          key={attachment.id}
+          href={dataUrl}
+          download={attachment.name}
+          className="flex items-center bg-[var(--surface-1)] border border-[var(--border-color)] rounded-lg px-2.5 py-2 max-w-[16rem] hover:bg-[var(--surface-3)] focus:outline-none focus:ring-2 focus:ring-[var(--ring)]"
+        >
+          <FileText className="w-5 h-5 mr-2 text-[var(--primary)] flex-shrink-0" strokeWidth={1.5} aria-hidden="true" />
+          <span className="min-w-0">
+            <span className="block text-xs text-[var(--text-primary)] truncate">{attachment.name}</span>
+            <span className="block text-[10px] text-[var(--text-secondary)]">{formatFileSize(attachment.size)}</span>
+          </span>
+        </a>
       );
-    }
-    // For inline code
-    return <code className="bg-[var(--surface-active)] text-[var(--text-accent)] px-1 py-0.5 rounded text-base" {...props}>{children}</code>;
-  },
-  h1: ({ node, ...props }: any) => <div className="w-full"><h1 className="text-3xl font-bold my-4 text-[var(--text-primary)]" {...props} /></div>,
-  h2: ({ node, ...props }: any) => <div className="w-full"><h2 className="text-2xl font-bold my-3 text-[var(--text-primary)]" {...props} /></div>,
-  h3: ({ node, ...props }: any) => <div className="w-full"><h3 className="text-xl font-semibold my-2 text-[var(--text-primary)]" {...props} /></div>,
-  h4: ({ node, ...props }: any) => <div className="w-full"><h4 className="text-lg font-semibold my-1.5 text-[var(--text-primary)]" {...props} /></div>,
-  h5: ({ node, ...props }: any) => <div className="w-full"><h5 className="text-base font-bold my-1 text-[var(--text-primary)]" {...props} /></div>,
-  h6: ({ node, ...props }: any) => <div className="w-full"><h6 className="text-sm font-medium my-1 text-[var(--text-primary)]" {...props} /></div>,
-  blockquote: ({ node, ...props }: any) => <div className="w-full"><blockquote className="border-l-4 border-[var(--primary)] pl-4 italic my-2 text-[var(--text-secondary)]" {...props} /></div>,
-  table: ({ node, ...props }: any) => (
-    <div className="w-full">
-      <div className="overflow-x-auto my-2 bg-[var(--surface-1)] p-2 rounded-md">
-        <table className="min-w-full border-collapse border border-[var(--border-color)] text-sm text-[var(--text-primary)]" {...props} />
-      </div>
-    </div>
-  ),
-  thead: ({ node, ...props }: any) => <thead className="bg-[var(--surface-active)]" {...props} />,
-  th: ({ node, ...props }: any) => <th className="border border-[var(--border-color)] px-3 py-2 text-left bg-[var(--surface-active)] font-semibold text-[var(--text-primary)]" {...props} />,
-  td: ({ node, ...props }: any) => <td className="border border-[var(--border-color)] px-3 py-2" {...props} />,
-};
+    })}
+  </div>
+);
 
-const ChatMessageItem: React.FC<ChatMessageItemProps> = ({ message }) => {
+export const getMessageElementId = (messageId: string): string => `message-${messageId}`;
+
+const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
+  message,
+  siblingIndex,
+  siblingCount,
+  onSelectSibling,
+  onRegenerate,
+  onRetry,
+  onEdit,
+  areActionsDisabled,
+  isHighlighted,
+}) => {
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState('');
   const isUser = message.sender === Sender.User;
-  const textToRender = message.text || '';
+  const messageElementId = getMessageElementId(message.id);
+  const highlightClasses = isHighlighted ? 'rounded-xl ring-2 ring-[var(--primary)] ring-offset-4 ring-offset-[var(--background)]' : '';
+  const isShowingTranslation = !!message.translation && !showOriginal;
+  const textToRender = (isShowingTranslation ? message.translation?.text : message.text) || '';
 
   if (isUser) {
     const userRowContainerClasses = `flex w-full justify-end`;
     const userBubbleClasses = `bg-[var(--primary)] text-[var(--text-on-primary)] p-3 rounded-[1.5rem] break-words max-w-md sm:max-w-lg md:max-w-xl lg:max-w-2xl`;
 
+    const submitEdit = () => {
+      if (!editText.trim() || !onEdit) return;
+      setIsEditing(false);
+      onEdit(editText.trim());
+    };
+
+    if (isEditing) {
+      return (
+        <div id={messageElementId} className={`${userRowContainerClasses} ${highlightClasses}`} role="listitem">
+          <div className="w-full max-w-md sm:max-w-lg md:max-w-xl lg:max-w-2xl bg-[var(--surface-1)] border border-[var(--border-color)] rounded-xl p-3 space-y-2">
+            <textarea
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                } else if (e.key === 'Escape') {
+                  setIsEditing(false);
+                }
+              }}
+              rows={3}
+              autoFocus
+              className="w-full bg-[var(--background)] text-[var(--text-primary)] border border-[var(--border-color-light)] rounded-lg p-2 focus:ring-1 focus:ring-[var(--ring)] focus:border-[var(--ring)] focus:outline-none text-sm resize-y"
+              aria-label="Edit message"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1.5 text-xs font-medium text-[var(--text-primary)] bg-[var(--surface-3)] hover:bg-[var(--surface-active)] rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--ring)]"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={submitEdit}
+                disabled={!editText.trim() || areActionsDisabled}
+                className="px-3 py-1.5 text-xs font-medium text-[var(--text-on-primary)] bg-[var(--primary)] hover:bg-[var(--primary-hover)] rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--ring)] disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save & Submit
+              </button>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
     return (
-      <div className={userRowContainerClasses} role="listitem">
-        <div
-          className={userBubbleClasses}
-          role="log"
-          aria-live="off"
-          aria-atomic="true"
-        >
-          <ReactMarkdown
-            remarkPlugins={[remarkGfm]}
-            components={markdownComponents}
+      <div id={messageElementId} className={`${userRowContainerClasses} flex-col items-end group ${highlightClasses}`} role="listitem">
+        {message.attachments && message.attachments.length > 0 && (
+          <AttachmentList attachments={message.attachments} />
+        )}
+        {textToRender.trim() !== '' && (
+          <div
+            className={userBubbleClasses}
+            role="log"
+            aria-live="off"
+            aria-atomic="true"
           >
-            {textToRender}
-          </ReactMarkdown>
+            <ReactMarkdown
+              remarkPlugins={[remarkGfm]}
+              components={markdownComponents}
+            >
+              {textToRender}
+            </ReactMarkdown>
+          </div>
+        )}
+        <div className="flex items-center gap-1 mt-1">
+          <BranchNavigator
+            siblingIndex={siblingIndex}
+            siblingCount={siblingCount}
+            onSelectSibling={onSelectSibling}
+            disabled={areActionsDisabled}
+          />
+          {onEdit && (
+            <button
+              onClick={() => { setEditText(message.text); setIsEditing(true); }}
+              disabled={areActionsDisabled}
+              className={`${actionButtonClasses} opacity-0 group-hover:opacity-100 focus:opacity-100`}
+              aria-label="Edit message"
+              title="Edit and resend"
+            >
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+          )}
         </div>
       </div>
     );
@@ -131,17 +243,25 @@ const ChatMessageItem: React.FC<ChatMessageItemProps> = ({ message }) => {
     `;
 
     const streamingIndicatorText = "thinking...";
+    const finishNote = describeFinishReason(message.finishReason);
 
     const textForMarkdown = (message.isStreaming && textToRender === '' && !message.isError) ? '\u00A0' : textToRender;
 
     return (
-      <div className={aiRowContainerClasses} role="listitem">
+      <div id={messageElementId} className={`${aiRowContainerClasses} ${highlightClasses}`} role="listitem">
         <div
           className={aiContentClasses.trim().replace(/\s+/g, ' ')}
           role="log"
           aria-live={message.isStreaming && !message.isError ? "polite" : "off"}
           aria-atomic="true"
         >
+          {message.thinkingDetails?.thoughts && (
+            <ThinkingModePanel
+              thoughts={message.thinkingDetails.thoughts}
+              thinkingMs={message.thinkingDetails.thinkingMs}
+              isThinking={!!message.isStreaming && message.text === ''}
+            />
+          )}
           <div className="flex items-baseline flex-wrap">
             <ReactMarkdown
               remarkPlugins={[remarkGfm]}
@@ -158,6 +278,94 @@ const ChatMessageItem: React.FC<ChatMessageItemProps> = ({ message }) => {
               {streamingIndicatorText}
             </span>
           )}
+
+          {message.isError && !message.isStreaming && (
+            <div className="flex items-start gap-2" role="alert">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0 text-red-400" strokeWidth={1.5} aria-hidden="true" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-red-400">{ERROR_TITLES[message.error?.category ?? 'unknown']}</p>
+                {message.error && <p className="text-xs text-[var(--text-secondary)] mt-0.5">{message.error.message}</p>}
+              </div>
+              {onRetry && (
+                <button
+                  onClick={onRetry}
+                  disabled={areActionsDisabled}
+                  className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md text-[var(--text-primary)] bg-[var(--surface-2)] hover:bg-[var(--surface-3)] border border-[var(--border-color)] disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" aria-hidden="true" />
+                  Retry
+                </button>
+              )}
+            </div>
+          )}
+
+          {message.isStopped && !message.isStreaming && (
+            <span className="flex items-center mt-1 text-xs text-[var(--text-secondary)] italic" aria-label="Response was stopped before it finished">
+              <CircleStop className="w-3.5 h-3.5 mr-1" strokeWidth={1.5} aria-hidden="true" />
+              Response stopped
+            </span>
+          )}
+
+          {finishNote && !message.isStreaming && (
+            <span className="flex items-center mt-1 text-xs text-amber-400" role="note">
+              <AlertTriangle className="w-3.5 h-3.5 mr-1 flex-shrink-0" strokeWidth={1.5} aria-hidden="true" />
+              {finishNote}
+            </span>
+          )}
+
+          {message.streamError && !message.isStreaming && (
+            <span className="flex items-center mt-1 text-xs text-red-400" role="alert">
+              <AlertTriangle className="w-3.5 h-3.5 mr-1 flex-shrink-0" strokeWidth={1.5} aria-hidden="true" />
+              The response was interrupted: {message.streamError}
+            </span>
+          )}
+
+          {message.isTranslating && (
+            <span className="block mt-1 text-xs text-[var(--text-secondary)] animate-pulse text-left" aria-label="AI response is being translated">
+              translating...
+            </span>
+          )}
+
+          {message.translation && !message.isStreaming && (
+            <button
+              onClick={() => setShowOriginal(!showOriginal)}
+              className="mt-2 flex items-center text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] rounded focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+              aria-pressed={!isShowingTranslation}
+            >
+              <Languages className="w-3.5 h-3.5 mr-1" strokeWidth={1.5} aria-hidden="true" />
+              {isShowingTranslation ? `Translated to ${message.translation.languageName} · Show original` : `Show ${message.translation.languageName} translation`}
+            </button>
+          )}
+
+          {!message.isStreaming && (siblingCount > 1 || onRegenerate || message.usage) && (
+            <div className="flex items-center gap-1 mt-2 -mb-1">
+              <BranchNavigator
+                siblingIndex={siblingIndex}
+                siblingCount={siblingCount}
+                onSelectSibling={onSelectSibling}
+                disabled={areActionsDisabled}
+              />
+              {onRegenerate && (
+                <button
+                  onClick={onRegenerate}
+                  disabled={areActionsDisabled}
+                  className={actionButtonClasses}
+                  aria-label="Regenerate response"
+                  title="Regenerate response"
+                >
+                  <RefreshCw className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {message.usage && (
+                <span
+                  className="ml-auto text-[10px] text-[var(--text-placeholder)] tabular-nums"
+                  title={`Prompt: ${message.usage.promptTokens} tokens\nOutput: ${message.usage.outputTokens} tokens\nThinking: ${message.usage.thoughtTokens} tokens`}
+                >
+                  {formatTokenCount(message.usage.totalTokens)} tokens
+                </span>
+              )}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -0,0 +1,68 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Cpu, ChevronDown, Check } from 'lucide-react';
+import { getFriendlyModelName } from '../services/modelRegistryService';
+
+interface ChatModelMenuProps {
+  models: string[];
+  currentModel: string;
+  onSelectModel: (model: string) => void;
+  disabled?: boolean;
+}
+
+// Short label for the header button, e.g. "Flash" for "Flash (Fast & Efficient)".
+const getShortModelName = (model: string): string => getFriendlyModelName(model).replace(/\s*\(.*\)$/, '');
+
+const ChatModelMenu: React.FC<ChatModelMenuProps> = ({ models, currentModel, onSelectModel, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center gap-1 px-2 py-1 rounded-full text-xs text-[var(--text-secondary)] bg-[var(--surface-3)] hover:text-[var(--text-primary)] disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+        aria-label={`Model: ${getFriendlyModelName(currentModel)}. Change model`}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title="Model for the next reply"
+      >
+        <Cpu className="w-3.5 h-3.5 flex-shrink-0" aria-hidden="true" />
+        <span className="hidden sm:inline">{getShortModelName(currentModel)}</span>
+        <ChevronDown className="w-3 h-3 flex-shrink-0" aria-hidden="true" />
+      </button>
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-1 w-60 bg-[var(--background)] border border-[var(--border-color-light)] rounded-lg shadow-lg py-1 z-30"
+          role="menu"
+        >
+          {models.map(model => (
+            <button
+              key={model}
+              onClick={() => { setIsOpen(false); onSelectModel(model); }}
+              className="w-full flex items-center px-3 py-2 text-sm text-[var(--text-primary)] hover:bg-[var(--surface-3)] focus:outline-none focus:bg-[var(--surface-3)]"
+              role="menuitemradio"
+              aria-checked={model === currentModel}
+            >
+              <Check className={`w-4 h-4 mr-2 text-[var(--primary)] ${model === currentModel ? '' : 'invisible'}`} aria-hidden="true" />
+              {getFriendlyModelName(model)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatModelMenu;
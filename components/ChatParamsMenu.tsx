@@ -0,0 +1,75 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { GenerationParams } from '../types';
+import { hasGenerationParams } from '../services/generationParamsService';
+import GenerationParamsEditor from './GenerationParamsEditor';
+
+interface ChatParamsMenuProps {
+  chatParams: GenerationParams | undefined;
+  globalParams: GenerationParams;
+  onSetChatParams: (params: GenerationParams | undefined) => void;
+  disabled?: boolean;
+}
+
+const ChatParamsMenu: React.FC<ChatParamsMenuProps> = ({ chatParams, globalParams, onSetChatParams, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const hasOverrides = hasGenerationParams(chatParams);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="relative p-2 rounded-full text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--surface-3)] disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+        aria-label={hasOverrides ? 'Generation settings for this chat (customized)' : 'Generation settings for this chat'}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        title="Generation settings for this chat"
+      >
+        <SlidersHorizontal className="w-5 h-5" strokeWidth={1.5} />
+        {hasOverrides && <span className="absolute top-1.5 right-1.5 w-2 h-2 rounded-full bg-[var(--primary)]" aria-hidden="true" />}
+      </button>
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-1 w-72 sm:w-80 bg-[var(--background)] border border-[var(--border-color-light)] rounded-lg shadow-lg p-3 z-30 space-y-3"
+          role="dialog"
+          aria-label="Generation settings for this chat"
+        >
+          <p className="text-[10px] xs:text-xs text-[var(--text-secondary)]">
+            Values set here apply to this chat only. Empty fields use the settings from the Settings page.
+          </p>
+          <GenerationParamsEditor
+            idPrefix="chat-params"
+            params={chatParams || {}}
+            onChange={(params) => onSetChatParams(hasGenerationParams(params) ? params : undefined)}
+            inheritedParams={globalParams}
+          />
+          {hasOverrides && (
+            <div className="flex justify-end">
+              <button
+                onClick={() => onSetChatParams(undefined)}
+                className="px-2.5 py-1 rounded-md text-xs font-medium border bg-[var(--surface-3)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] border-[var(--border-color-light)] focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+              >
+                Use global settings
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatParamsMenu;
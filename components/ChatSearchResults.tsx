@@ -0,0 +1,54 @@
+import React from 'react';
+import { SearchResult, buildHighlightPattern } from '../services/searchService';
+
+interface ChatSearchResultsProps {
+  query: string;
+  results: SearchResult[];
+  onSelectResult: (result: SearchResult) => void;
+}
+
+const HighlightedText: React.FC<{ text: string; pattern: RegExp | null }> = ({ text, pattern }) => {
+  if (!pattern) return <>{text}</>;
+  // Splitting on a capturing group keeps the matches at the odd indexes.
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-[var(--primary)]/30 text-[var(--text-primary)] rounded-sm px-0.5">{part}</mark>
+          : <React.Fragment key={index}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+const ChatSearchResults: React.FC<ChatSearchResultsProps> = ({ query, results, onSelectResult }) => {
+  const pattern = buildHighlightPattern(query);
+
+  if (results.length === 0) {
+    return (
+      <p className="text-sm text-[var(--text-secondary)] p-2.5">No messages match "{query.trim()}".</p>
+    );
+  }
+
+  return (
+    <ul className="space-y-1" aria-label="Search results">
+      {results.map(result => (
+        <li key={result.messageId}>
+          <button
+            onClick={() => onSelectResult(result)}
+            className="w-full text-left p-2 sm:p-2.5 rounded-md hover:bg-[var(--surface-3)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] focus:outline-none focus:ring-1 focus:ring-[var(--ring)] transition-colors duration-150"
+          >
+            <span className="block text-sm font-medium text-[var(--text-primary)] truncate">
+              <HighlightedText text={result.chatTitle} pattern={pattern} />
+            </span>
+            <span className="block text-xs mt-0.5 line-clamp-3 break-words">
+              <HighlightedText text={result.snippet} pattern={pattern} />
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ChatSearchResults;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { COMPACTION_THRESHOLD } from '../services/contextService';
+import { formatTokenCount } from '../services/usageService';
+
+interface ContextMeterProps {
+  usedTokens: number;
+  limitTokens: number;
+  isCompacting: boolean;
+}
+
+const WARNING_SHARE = 0.6;
+
+const ContextMeter: React.FC<ContextMeterProps> = ({ usedTokens, limitTokens, isCompacting }) => {
+  const share = Math.min(usedTokens / limitTokens, 1);
+  const percent = Math.round(share * 100);
+  const barColor = share >= COMPACTION_THRESHOLD ? 'bg-red-400' : share >= WARNING_SHARE ? 'bg-amber-400' : 'bg-[var(--primary)]';
+  const title = isCompacting
+    ? 'Summarizing older messages to make room…'
+    : `About ${formatTokenCount(usedTokens)} of ${formatTokenCount(limitTokens)} context tokens used. Older messages are summarized at ${Math.round(COMPACTION_THRESHOLD * 100)}%.`;
+
+  return (
+    <div className="flex items-center gap-1.5 text-xs text-[var(--text-secondary)] flex-shrink-0" title={title}>
+      {isCompacting ? (
+        <>
+          <Loader2 className="w-3.5 h-3.5 animate-spin" aria-hidden="true" />
+          <span className="hidden sm:inline">Compacting…</span>
+        </>
+      ) : (
+        <>
+          <div
+            className="w-12 sm:w-16 h-1.5 rounded-full bg-[var(--surface-3)] overflow-hidden"
+            role="meter"
+            aria-label="Context window used"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+          >
+            <div className={`h-full rounded-full ${barColor}`} style={{ width: `${percent}%` }} />
+          </div>
+          <span className="tabular-nums">{percent}%</span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ContextMeter;
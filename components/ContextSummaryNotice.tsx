@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Layers, ChevronDown, ChevronUp } from 'lucide-react';
+import { ContextSummary } from '../types';
+import { markdownComponents } from './markdownComponents';
+
+interface ContextSummaryNoticeProps {
+  summary: ContextSummary;
+}
+
+// Shown after the last summarized message, so it's clear which turns the model
+// now only sees through the summary.
+const ContextSummaryNotice: React.FC<ContextSummaryNoticeProps> = ({ summary }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="border border-dashed border-[var(--border-color-light)] rounded-lg px-3 py-2 text-xs text-[var(--text-secondary)]">
+      <button
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center gap-2 text-left hover:text-[var(--text-primary)] focus:outline-none focus:text-[var(--text-primary)]"
+        aria-expanded={isExpanded}
+      >
+        <Layers className="w-3.5 h-3.5 flex-shrink-0" aria-hidden="true" />
+        <span className="flex-1">Messages above were summarized to fit the context window. The model sees the summary instead.</span>
+        {isExpanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+        <span className="sr-only">{isExpanded ? 'Hide summary' : 'Show summary'}</span>
+      </button>
+      {isExpanded && (
+        <div className="mt-2 pt-2 border-t border-[var(--border-color)] text-sm text-[var(--text-primary)]">
+          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+            {summary.text}
+          </ReactMarkdown>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContextSummaryNotice;
@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { GenerationParams } from '../types';
+import {
+  GENERATION_PARAM_FIELDS,
+  MAX_STOP_SEQUENCES,
+  NumericGenerationParam,
+  parseStopSequences,
+  withGenerationParam,
+} from '../services/generationParamsService';
+
+interface GenerationParamsEditorProps {
+  idPrefix: string;
+  params: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+  inheritedParams?: GenerationParams; // Shown as placeholders for fields left empty
+}
+
+const inputClasses = "w-full bg-[var(--background)] text-[var(--text-primary)] placeholder-[var(--text-placeholder)] border border-[var(--border-color-light)] rounded-md p-1.5 sm:p-2 focus:ring-1 focus:ring-[var(--ring)] focus:border-[var(--ring)] focus:outline-none text-xs sm:text-sm";
+
+// Empty fields are left unset, so the model (or the global setting) decides.
+const GenerationParamsEditor: React.FC<GenerationParamsEditorProps> = ({ idPrefix, params, onChange, inheritedParams = {} }) => {
+  // Kept as text while editing, so a line break can be typed before the next sequence.
+  const [stopSequencesText, setStopSequencesText] = useState((params.stopSequences || []).join('\n'));
+
+  useEffect(() => {
+    setStopSequencesText((params.stopSequences || []).join('\n'));
+  }, [params.stopSequences]);
+
+  const updateNumber = (key: NumericGenerationParam, value: string) => {
+    const parsed = parseFloat(value);
+    onChange(withGenerationParam(params, key, value.trim() === '' || isNaN(parsed) ? undefined : parsed));
+  };
+
+  const inheritedStopSequences = inheritedParams.stopSequences?.join('\n');
+
+  return (
+    <div className="space-y-2.5">
+      <div className="grid grid-cols-2 gap-2 sm:gap-3">
+        {GENERATION_PARAM_FIELDS.map(field => (
+          <div key={field.key}>
+            <label htmlFor={`${idPrefix}-${field.key}`} className="block text-xs text-[var(--text-primary)] mb-1" title={field.description}>
+              {field.label}
+            </label>
+            <input
+              id={`${idPrefix}-${field.key}`}
+              type="number"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={params[field.key] ?? ''}
+              onChange={(e) => updateNumber(field.key, e.target.value)}
+              placeholder={inheritedParams[field.key] !== undefined ? String(inheritedParams[field.key]) : 'Default'}
+              className={`${inputClasses} tabular-nums`}
+              title={field.description}
+            />
+          </div>
+        ))}
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-stopSequences`} className="block text-xs text-[var(--text-primary)] mb-1">
+          Stop sequences <span className="text-[var(--text-secondary)]">(one per line, up to {MAX_STOP_SEQUENCES})</span>
+        </label>
+        <textarea
+          id={`${idPrefix}-stopSequences`}
+          value={stopSequencesText}
+          onChange={(e) => setStopSequencesText(e.target.value)}
+          onBlur={() => onChange(withGenerationParam(params, 'stopSequences', parseStopSequences(stopSequencesText)))}
+          rows={2}
+          placeholder={inheritedStopSequences || 'None'}
+          className={`${inputClasses} resize-y font-mono`}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default GenerationParamsEditor;
@@ -0,0 +1,200 @@
+import React, { useState, useCallback, useMemo, ChangeEvent } from 'react';
+import { X, UploadCloud, CheckSquare, Square } from 'lucide-react';
+import { StoredChat } from '../types';
+import { parseExternalConversations, ImportSource } from '../services/conversationImportService';
+
+interface ImportConversationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingChatIds: Set<string>;
+  onImport: (chats: StoredChat[]) => void;
+}
+
+const MAX_IMPORT_FILE_SIZE_MB = 200;
+const MAX_IMPORT_FILE_SIZE_BYTES = MAX_IMPORT_FILE_SIZE_MB * 1024 * 1024;
+
+const SOURCE_LABELS: Record<ImportSource, string> = {
+  chatgpt: 'ChatGPT export',
+  generic: 'Role/content JSON',
+};
+
+const ImportConversationsModal: React.FC<ImportConversationsModalProps> = ({ isOpen, onClose, existingChatIds, onImport }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [parsedChats, setParsedChats] = useState<StoredChat[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [isLoadingFile, setIsLoadingFile] = useState<boolean>(false);
+
+  const handleClose = useCallback(() => {
+    setFileName(null);
+    setSource(null);
+    setParsedChats([]);
+    setSelectedIds(new Set());
+    setError(null);
+    setIsLoadingFile(false);
+    onClose();
+  }, [onClose]);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setParsedChats([]);
+    setSelectedIds(new Set());
+    if (file.size > MAX_IMPORT_FILE_SIZE_BYTES) {
+      setError(`File is too large. Maximum size is ${MAX_IMPORT_FILE_SIZE_MB}MB.`);
+      return;
+    }
+
+    setError(null);
+    setIsLoadingFile(true);
+    try {
+      const parsed = parseExternalConversations(await file.text());
+      if (parsed.chats.length === 0) {
+        setError('No conversations with readable messages were found in this file.');
+        return;
+      }
+      setSource(parsed.source);
+      setParsedChats(parsed.chats);
+      // Conversations imported before are unticked, so re-importing an export only adds new ones.
+      setSelectedIds(new Set(parsed.chats.filter(chat => !existingChatIds.has(chat.id)).map(chat => chat.id)));
+    } catch (err: any) {
+      setError(err.message || 'Error reading file.');
+    } finally {
+      setIsLoadingFile(false);
+    }
+  };
+
+  const toggleSelected = (chatId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(chatId)) {
+        next.delete(chatId);
+      } else {
+        next.add(chatId);
+      }
+      return next;
+    });
+  };
+
+  const newChatIds = useMemo(() => parsedChats.filter(chat => !existingChatIds.has(chat.id)).map(chat => chat.id), [parsedChats, existingChatIds]);
+  const alreadyImportedCount = parsedChats.length - newChatIds.length;
+
+  const handleImport = () => {
+    onImport(parsedChats.filter(chat => selectedIds.has(chat.id) && !existingChatIds.has(chat.id)));
+    handleClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="import-modal-title"
+    >
+      <div className="bg-[var(--surface-1)] text-[var(--text-primary)] p-5 sm:p-6 rounded-xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-[var(--border-color)]">
+        <div className="flex justify-between items-center mb-4 sm:mb-5">
+          <h2 id="import-modal-title" className="text-lg sm:text-xl font-semibold">Import Conversations</h2>
+          <button
+            onClick={handleClose}
+            className="p-1.5 rounded-full hover:bg-[var(--surface-3)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--ring)]"
+            aria-label="Close import dialog"
+          >
+            <X className="h-[18px] w-[18px] sm:h-[20px] sm:w-[20px]" />
+          </button>
+        </div>
+
+        <label
+          htmlFor="file-upload-import"
+          className="w-full flex flex-col items-center justify-center p-4 sm:p-5 border-2 border-dashed border-[var(--border-color)] rounded-lg cursor-pointer hover:border-[var(--primary)] transition-colors bg-[var(--background)] hover:bg-[var(--surface-2)] flex-shrink-0"
+        >
+          <UploadCloud className="h-[30px] w-[30px] text-[var(--primary)] mb-1.5" />
+          <span className="text-xs sm:text-sm font-semibold text-[var(--text-primary)]">
+            {isLoadingFile ? "Reading file..." : (fileName || "Click to choose an export file")}
+          </span>
+          <span className="text-[10px] sm:text-xs text-[var(--text-secondary)] text-center">
+            ChatGPT's conversations.json (unzip your data export first) or a JSON list of {'{ role, content }'} messages
+          </span>
+          <input
+            id="file-upload-import"
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileChange}
+            className="hidden"
+            disabled={isLoadingFile}
+          />
+        </label>
+
+        {error && (
+          <p className="text-xs sm:text-sm text-red-400 mt-3 bg-red-900/20 p-2 sm:p-2.5 rounded-md text-center" role="alert">{error}</p>
+        )}
+
+        {parsedChats.length > 0 && source && (
+          <div className="mt-4 flex flex-col min-h-0 flex-1">
+            <div className="flex items-center justify-between text-xs text-[var(--text-secondary)] mb-2">
+              <span>
+                {SOURCE_LABELS[source]}: {parsedChats.length} conversation{parsedChats.length === 1 ? '' : 's'}
+                {alreadyImportedCount > 0 && `, ${alreadyImportedCount} already imported`}
+              </span>
+              <span className="space-x-2">
+                <button onClick={() => setSelectedIds(new Set(newChatIds))} className="hover:text-[var(--text-primary)] underline">Select all</button>
+                <button onClick={() => setSelectedIds(new Set())} className="hover:text-[var(--text-primary)] underline">Select none</button>
+              </span>
+            </div>
+            <ul className="overflow-y-auto space-y-1 border border-[var(--border-color)] rounded-lg p-1 bg-[var(--background)]">
+              {parsedChats.map(chat => {
+                const isAlreadyImported = existingChatIds.has(chat.id);
+                const isSelected = selectedIds.has(chat.id);
+                return (
+                  <li key={chat.id}>
+                    <button
+                      onClick={() => toggleSelected(chat.id)}
+                      disabled={isAlreadyImported}
+                      className="w-full flex items-center text-left p-2 rounded-md hover:bg-[var(--surface-3)] disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+                      role="checkbox"
+                      aria-checked={isSelected}
+                    >
+                      {isSelected
+                        ? <CheckSquare className="w-4 h-4 mr-2 text-[var(--primary)] flex-shrink-0" />
+                        : <Square className="w-4 h-4 mr-2 text-[var(--text-secondary)] flex-shrink-0" />}
+                      <span className="flex-1 min-w-0">
+                        <span className="block text-sm truncate">{chat.title}</span>
+                        <span className="block text-[10px] xs:text-xs text-[var(--text-secondary)]">
+                          {new Date(chat.createdAt).toLocaleDateString()} · {chat.messages.length} message{chat.messages.length === 1 ? '' : 's'}
+                          {isAlreadyImported && ' · already imported'}
+                        </span>
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        <div className="mt-5 sm:mt-6 flex justify-end space-x-2 sm:space-x-3 flex-shrink-0">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium text-[var(--text-secondary)] bg-[var(--surface-3)] hover:bg-[var(--surface-active)] rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--ring)] focus:ring-offset-2 focus:ring-offset-[var(--surface-1)]"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={selectedIds.size === 0}
+            className="px-4 py-2 sm:px-5 sm:py-2.5 text-xs sm:text-sm font-medium text-[var(--text-on-primary)] bg-[var(--primary)] hover:bg-[var(--primary-hover)] rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--ring)] focus:ring-offset-2 focus:ring-offset-[var(--surface-1)] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {selectedIds.size > 0 ? selectedIds.size : ''} selected
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportConversationsModal;
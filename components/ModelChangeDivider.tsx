@@ -0,0 +1,16 @@
+import React from 'react';
+import { getFriendlyModelName } from '../services/modelRegistryService';
+
+interface ModelChangeDividerProps {
+  model: string;
+}
+
+const ModelChangeDivider: React.FC<ModelChangeDividerProps> = ({ model }) => (
+  <div className="flex items-center gap-3 text-xs text-[var(--text-secondary)]" role="separator" aria-label={`Switched to ${getFriendlyModelName(model)}`}>
+    <div className="flex-1 border-t border-[var(--border-color)]" />
+    <span>Switched to {getFriendlyModelName(model)}</span>
+    <div className="flex-1 border-t border-[var(--border-color)]" />
+  </div>
+);
+
+export default ModelChangeDivider;
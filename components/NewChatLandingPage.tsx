@@ -1,10 +1,15 @@
 
 import React from 'react';
-import { Lightbulb, Palette, ClipboardList, Brain, TextQuote } from 'lucide-react'; 
+import { Lightbulb, Palette, ClipboardList, Brain, TextQuote, UserRound } from 'lucide-react'; 
+import { Persona } from '../types';
+import { DEFAULT_PERSONA_NAME } from '../services/personaService';
 
 interface NewChatLandingPageProps {
   onPromptClick: (prompt: string) => void;
   onOpenSummarizeModal: () => void;
+  personas: Persona[];
+  selectedPersonaId: string | null;
+  onSelectPersona: (personaId: string | null) => void;
 }
 
 interface StarterPrompt {
@@ -44,7 +49,7 @@ const starterPrompts: StarterPrompt[] = [
   },
 ];
 
-const NewChatLandingPage: React.FC<NewChatLandingPageProps> = ({ onPromptClick, onOpenSummarizeModal }) => {
+const NewChatLandingPage: React.FC<NewChatLandingPageProps> = ({ onPromptClick, onOpenSummarizeModal, personas, selectedPersonaId, onSelectPersona }) => {
   
   const tools: ToolDefinition[] = [
     {
@@ -121,6 +126,24 @@ const NewChatLandingPage: React.FC<NewChatLandingPageProps> = ({ onPromptClick,
       <p className="text-base sm:text-lg md:text-xl text-[var(--text-secondary)] mb-8 sm:mb-10 md:mb-12 animate-fade-in" style={{animationDelay: '0.3s'}}>
         Hello! How can I help you today?
       </p>
+
+      {personas.length > 0 && (
+        <div className="flex items-center gap-2 -mt-4 sm:-mt-6 mb-8 sm:mb-10 animate-fade-in" style={{animationDelay: '0.45s'}}>
+          <UserRound className="w-4 h-4 text-[var(--text-secondary)]" strokeWidth={1.5} aria-hidden="true" />
+          <label htmlFor="new-chat-persona-select" className="text-sm text-[var(--text-secondary)]">Persona:</label>
+          <select
+            id="new-chat-persona-select"
+            value={selectedPersonaId || ''}
+            onChange={(e) => onSelectPersona(e.target.value || null)}
+            className="bg-[var(--surface-3)] text-[var(--text-primary)] border border-[var(--border-color)] rounded-full px-3 py-1.5 focus:ring-1 focus:ring-[var(--ring)] focus:outline-none text-sm"
+          >
+            <option value="">{DEFAULT_PERSONA_NAME}</option>
+            {personas.map(persona => (
+              <option key={persona.id} value={persona.id}>{persona.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
       
       <div className="grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4 w-full animate-fade-in" style={{animationDelay: '0.6s'}}>
         {starterPrompts.map((prompt, index) => (
@@ -0,0 +1,76 @@
+import React from 'react';
+import { UserRound, Plus, Trash2 } from 'lucide-react';
+import { Persona } from '../types';
+import { DEFAULT_PERSONA_NAME } from '../services/personaService';
+
+interface PersonaSettingsProps {
+  personas: Persona[];
+  onCreatePersona: () => void;
+  onUpdatePersona: (personaId: string, updates: Partial<Omit<Persona, 'id'>>) => void;
+  onDeletePersona: (personaId: string) => void;
+}
+
+const inputClasses = "w-full bg-[var(--background)] text-[var(--text-primary)] placeholder-[var(--text-placeholder)] border border-[var(--border-color-light)] rounded-md p-2 focus:ring-1 focus:ring-[var(--ring)] focus:border-[var(--ring)] focus:outline-none text-xs sm:text-sm";
+
+const PersonaSettings: React.FC<PersonaSettingsProps> = ({ personas, onCreatePersona, onUpdatePersona, onDeletePersona }) => {
+  const confirmDelete = (persona: Persona) => {
+    if (window.confirm(`Delete the persona "${persona.name}"? Chats using it switch back to ${DEFAULT_PERSONA_NAME}.`)) {
+      onDeletePersona(persona.id);
+    }
+  };
+
+  return (
+    <section aria-labelledby="personas-heading" className="bg-[var(--surface-2)] p-3 sm:p-4 rounded-lg">
+      <h3 id="personas-heading" className="text-sm sm:text-md font-semibold text-[var(--text-primary)] mb-2 sm:mb-3 flex items-center">
+        <UserRound className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+        Personas
+      </h3>
+      <p className="text-[10px] xs:text-xs text-[var(--text-secondary)] mb-2 sm:mb-3">
+        A persona is a named set of instructions the AI follows for a whole chat. Pick one when starting a chat or from the chat header, where you can also adjust the instructions for a single chat.
+      </p>
+
+      <div className="space-y-3">
+        {personas.map(persona => (
+          <div key={persona.id} className="bg-[var(--surface-3)] rounded-md p-2.5 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={persona.name}
+                onChange={(e) => onUpdatePersona(persona.id, { name: e.target.value })}
+                onBlur={(e) => !e.target.value.trim() && onUpdatePersona(persona.id, { name: 'Untitled persona' })}
+                className={inputClasses}
+                aria-label="Persona name"
+              />
+              <button
+                onClick={() => confirmDelete(persona)}
+                className="p-2 rounded-md text-[var(--text-secondary)] hover:text-red-400 hover:bg-[var(--surface-active)] focus:outline-none focus:ring-1 focus:ring-[var(--ring)] flex-shrink-0"
+                aria-label={`Delete persona ${persona.name}`}
+                title="Delete persona"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <textarea
+              value={persona.instructions}
+              onChange={(e) => onUpdatePersona(persona.id, { instructions: e.target.value })}
+              rows={5}
+              placeholder="e.g. You are a patient math tutor. Explain each step and ask a question to check understanding before moving on."
+              className={`${inputClasses} resize-y`}
+              aria-label={`Instructions for ${persona.name}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={onCreatePersona}
+        className="mt-3 flex items-center px-2.5 py-1.5 rounded-md text-xs font-medium border bg-[var(--surface-3)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] border-[var(--border-color-light)] hover:border-[var(--primary)] transition-all focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+      >
+        <Plus className="w-3.5 h-3.5 mr-1" aria-hidden="true" />
+        Add persona
+      </button>
+    </section>
+  );
+};
+
+export default PersonaSettings;
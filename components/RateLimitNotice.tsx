@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { RateLimitErrorBody } from '../types';
+import { formatRetryDelay } from '../services/errorService';
+
+interface RateLimitNoticeProps {
+  limit: RateLimitErrorBody['limit'];
+  retryAt: number; // Epoch ms when the server accepts requests again
+  onExpired: () => void;
+}
+
+// Counts down to when sending works again, then removes itself through onExpired.
+const RateLimitNotice: React.FC<RateLimitNoticeProps> = ({ limit, retryAt, onExpired }) => {
+  const [now, setNow] = useState(Date.now());
+  const secondsLeft = Math.ceil((retryAt - now) / 1000);
+
+  useEffect(() => {
+    if (secondsLeft <= 0) {
+      onExpired();
+      return;
+    }
+    const timeout = window.setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timeout);
+  }, [secondsLeft, onExpired]);
+
+  if (secondsLeft <= 0) return null;
+
+  return (
+    <div className="flex items-center justify-center gap-2 text-amber-300 bg-amber-900/30 p-3 rounded-lg text-sm" role="status">
+      <Clock className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+      <span>
+        <strong>{limit === 'tokens' ? 'Daily usage quota reached.' : 'Request limit reached.'}</strong>{' '}
+        You can send again in {formatRetryDelay(secondsLeft)}.
+      </span>
+    </div>
+  );
+};
+
+export default RateLimitNotice;
@@ -1,13 +1,21 @@
 
-import React, { useState } from 'react';
-import { THINKING_CONFIG_SUPPORTED_MODELS, MODEL_FRIENDLY_NAMES, getFriendlyModelName } from '../services/geminiService';
-import { BaseTheme, AccentTheme, LanguageOption } from '../types';
-import { X, Brain, SlidersHorizontal as BudgetIcon, ArrowLeft, Palette, Settings2, Languages } from 'lucide-react';
+import React, { useState, useRef, ChangeEvent } from 'react';
+import { getFriendlyModelName, getModelInfo, isThinkingSupported } from '../services/modelRegistryService';
+import { THINKING_LEVELS, describeThinkingBudget, getThinkingBudget } from '../services/thinkingService';
+import { ChatImportResult } from '../services/chatExportService';
+import { TRASH_RETENTION_OPTIONS } from '../services/chatOrganizationService';
+import { CONTEXT_TOKEN_LIMIT_OPTIONS } from '../services/contextService';
+import { formatTokenCount } from '../services/usageService';
+import { BaseTheme, AccentTheme, LanguageOption, StoredChat, ModelPrice, Persona, GenerationParams, ThinkingLevel } from '../types';
+import UsageDashboard from './UsageDashboard';
+import PersonaSettings from './PersonaSettings';
+import GenerationParamsEditor from './GenerationParamsEditor';
+import { X, Brain, SlidersHorizontal as BudgetIcon, ArrowLeft, Palette, Settings2, Languages, DatabaseBackup, Download, Upload, Trash2, BarChart3, Layers, Dices } from 'lucide-react';
 
 interface SettingsPageProps {
   onClose: () => void;
-  thinkingBudget: number; 
-  onSetThinkingBudget: (budget: number) => void; 
+  thinkingLevel: ThinkingLevel;
+  onSetThinkingLevel: (level: ThinkingLevel) => void;
   availableModels: string[];
   currentModel: string;
   onSetModel: (modelName: string) => void;
@@ -20,14 +28,31 @@ interface SettingsPageProps {
   targetLanguage: string;
   onSetTargetLanguage: (languageCode: string) => void;
   supportedLanguages: LanguageOption[];
+  chatCount: number;
+  onExportBackup: () => void;
+  onRestoreBackup: (archiveJson: string) => ChatImportResult;
+  onOpenImportConversations: () => void;
+  trashRetentionDays: number;
+  onSetTrashRetentionDays: (days: number) => void;
+  chats: StoredChat[];
+  modelPrices: Record<string, ModelPrice>;
+  onSetModelPrices: (prices: Record<string, ModelPrice>) => void;
+  contextTokenLimit: number;
+  onSetContextTokenLimit: (limit: number) => void;
+  personas: Persona[];
+  onCreatePersona: () => void;
+  onUpdatePersona: (personaId: string, updates: Partial<Omit<Persona, 'id'>>) => void;
+  onDeletePersona: (personaId: string) => void;
+  generationParams: GenerationParams;
+  onSetGenerationParams: (params: GenerationParams) => void;
 }
 
-type SettingsCategory = 'ai' | 'appearance';
+type SettingsCategory = 'ai' | 'appearance' | 'data' | 'usage';
 
 const SettingsPage: React.FC<SettingsPageProps> = ({
   onClose,
-  thinkingBudget,
-  onSetThinkingBudget,
+  thinkingLevel,
+  onSetThinkingLevel,
   availableModels,
   currentModel,
   onSetModel,
@@ -40,19 +65,46 @@ const SettingsPage: React.FC<SettingsPageProps> = ({
   targetLanguage,
   onSetTargetLanguage,
   supportedLanguages,
+  chatCount,
+  onExportBackup,
+  onRestoreBackup,
+  onOpenImportConversations,
+  trashRetentionDays,
+  onSetTrashRetentionDays,
+  chats,
+  modelPrices,
+  onSetModelPrices,
+  contextTokenLimit,
+  onSetContextTokenLimit,
+  personas,
+  onCreatePersona,
+  onUpdatePersona,
+  onDeletePersona,
+  generationParams,
+  onSetGenerationParams,
 }) => {
   const [activeCategory, setActiveCategory] = useState<SettingsCategory>('ai');
+  const [restoreStatus, setRestoreStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
 
-  const handleBudgetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    let value = parseInt(e.target.value, 10);
-    if (isNaN(value)) value = 0;
-    value = Math.max(0, Math.min(5, value));
-    onSetThinkingBudget(value);
+  const handleRestoreFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { importedCount, skippedCount } = onRestoreBackup(await file.text());
+      const skippedNote = skippedCount > 0 ? ` ${skippedCount} already present and skipped.` : '';
+      setRestoreStatus({ message: `Restored ${importedCount} chat${importedCount === 1 ? '' : 's'} from "${file.name}".${skippedNote}`, isError: false });
+    } catch (err: any) {
+      setRestoreStatus({ message: `Could not restore "${file.name}": ${err.message || 'Unknown error'}`, isError: true });
+    }
   };
 
   const isChatModelEffectivelyAvailable = currentModel && availableModels.includes(currentModel);
-  const isThinkingBudgetApplicable = isChatModelEffectivelyAvailable && THINKING_CONFIG_SUPPORTED_MODELS.includes(currentModel);
+  const isThinkingBudgetApplicable = isChatModelEffectivelyAvailable && isThinkingSupported(currentModel);
   const currentFriendlyModelName = getFriendlyModelName(currentModel);
+  const thinkingRange = getModelInfo(currentModel)?.thinking;
+  const selectedThinkingLevel = THINKING_LEVELS.find(level => level.value === thinkingLevel) || THINKING_LEVELS[0];
 
   const baseThemeOptions: { label: string; value: BaseTheme }[] = [
     { label: 'Dark Mode', value: 'dark' },
@@ -68,15 +120,21 @@ const SettingsPage: React.FC<SettingsPageProps> = ({
   const categoryConfig: { id: SettingsCategory; label: string; Icon: React.ElementType }[] = [
     { id: 'ai', label: 'AI & Language', Icon: Brain },
     { id: 'appearance', label: 'Appearance', Icon: Palette },
+    { id: 'data', label: 'Data & Backup', Icon: DatabaseBackup },
+    { id: 'usage', label: 'Usage', Icon: BarChart3 },
   ];
 
   let thinkingBudgetDescription = "";
   if (!isChatModelEffectivelyAvailable) {
     thinkingBudgetDescription = "Thinking budget is not applicable as the model is unavailable."
   } else if (!isThinkingBudgetApplicable) {
-    thinkingBudgetDescription = `Thinking budget is not applicable for the '${currentFriendlyModelName}' model. This setting only affects 'Flash' models.`;
+    thinkingBudgetDescription = `Thinking budget is not applicable for the '${currentFriendlyModelName}' model. This setting only affects models whose thinking can be adjusted.`;
   } else { 
-     thinkingBudgetDescription = `Controls AI thinking effort for the '${currentFriendlyModelName}' model. The 0-5 slider value is used directly. '0' disables thinking for the fastest response. Higher values (1-5) allow for more processing time, which may improve response quality.`;
+     thinkingBudgetDescription = `${selectedThinkingLevel.description} For '${currentFriendlyModelName}': ${describeThinkingBudget(getThinkingBudget(thinkingLevel, thinkingRange)).toLowerCase()}.`;
+     if (thinkingRange && thinkingRange.minBudget > 0) {
+       thinkingBudgetDescription += `\nThis model can't turn thinking off; 'Off' uses its minimum of ${thinkingRange.minBudget.toLocaleString()} tokens.`;
+     }
+     thinkingBudgetDescription += "\nThe model's thought summaries can be opened above each reply.";
   }
 
 
@@ -131,7 +189,7 @@ const SettingsPage: React.FC<SettingsPageProps> = ({
             <section aria-labelledby="chat-model-heading" className="bg-[var(--surface-2)] p-3 sm:p-4 rounded-lg"> {/* shadow removed */}
               <h3 id="chat-model-heading" className="text-sm sm:text-md font-semibold text-[var(--text-primary)] mb-2 sm:mb-3 flex items-center">
                 <Brain className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
-                Chat Model
+                Default Chat Model
               </h3>
               {availableModels.length > 0 ? (
                 <>
@@ -140,7 +198,7 @@ const SettingsPage: React.FC<SettingsPageProps> = ({
                     value={currentModel} 
                     onChange={(e) => onSetModel(e.target.value)}
                     className="w-full bg-[var(--background)] text-[var(--text-primary)] border border-[var(--border-color-light)] rounded-md p-2 sm:p-2.5 focus:ring-1 focus:ring-[var(--ring)] focus:border-[var(--ring)] focus:outline-none text-xs sm:text-sm"
-                    aria-label="Select chat model"
+                    aria-label="Select default chat model"
                   >
                     {availableModels.map(modelId => (
                       <option key={modelId} value={modelId}>
@@ -149,7 +207,7 @@ const SettingsPage: React.FC<SettingsPageProps> = ({
                     ))}
                   </select>
                   <p className="text-[10px] xs:text-xs text-[var(--text-secondary)] mt-1.5 sm:mt-2">
-                    The selected model will be used for this chat. Changes apply to new interactions.
+                    Used for new chats. Each chat can switch to another model from its header at any point.
                   </p>
                 </>
               ) : (
@@ -165,42 +223,28 @@ const SettingsPage: React.FC<SettingsPageProps> = ({
                  AI Thinking Budget
               </h3>
               <div className={`space-y-1 ${!isChatModelEffectivelyAvailable ? 'opacity-60' : ''}`}>
-                <label htmlFor="thinking-budget-slider" className={`block text-xs sm:text-sm ${isThinkingBudgetApplicable ? 'text-[var(--text-primary)]' : 'text-[var(--text-placeholder)]'}`}>
-                  Adjust thinking effort
+                <p id="thinking-level-label" className={`block text-xs sm:text-sm ${isThinkingBudgetApplicable ? 'text-[var(--text-primary)]' : 'text-[var(--text-placeholder)]'}`}>
+                  Thinking effort
                   {!isChatModelEffectivelyAvailable && <span className="text-[10px] xs:text-xs text-[var(--text-secondary)] ml-1">(Model Not Available)</span>}
                   {isChatModelEffectivelyAvailable && !isThinkingBudgetApplicable && <span className="text-[10px] xs:text-xs text-[var(--text-secondary)] ml-1">(Not applicable for '{currentFriendlyModelName}')</span>}
-                </label>
-                <div className="flex items-center space-x-2 sm:space-x-3 pt-1">
-                  <input
-                    type="range"
-                    id="thinking-budget-slider"
-                    value={thinkingBudget}
-                    onChange={handleBudgetChange}
-                    min="0"
-                    max="5" 
-                    step="1"
-                    className={`w-full h-2 bg-[var(--surface-3)] rounded-lg appearance-none  
-                      focus:outline-none focus:ring-1 focus:ring-[var(--ring)] focus:ring-offset-1 focus:ring-offset-[var(--surface-1)]
-                      ${!isThinkingBudgetApplicable ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
-                      [&::-webkit-slider-thumb]:appearance-none
-                      [&::-webkit-slider-thumb]:w-4 sm:[&::-webkit-slider-thumb]:w-5
-                      [&::-webkit-slider-thumb]:h-4 sm:[&::-webkit-slider-thumb]:h-5
-                      [&::-webkit-slider-thumb]:bg-[var(--primary)]
-                      [&::-webkit-slider-thumb]:rounded-full
-                      ${!isThinkingBudgetApplicable ? '[&::-webkit-slider-thumb]:bg-[var(--primary-hover)] opacity-50' : '[&::-webkit-slider-thumb]:cursor-pointer'}
-                      [&::-moz-range-thumb]:w-4 sm:[&::-moz-range-thumb]:w-5
-                      [&::-moz-range-thumb]:h-4 sm:[&::-moz-range-thumb]:h-5
-                      [&::-moz-range-thumb]:bg-[var(--primary)]
-                      [&::-moz-range-thumb]:rounded-full
-                      ${!isThinkingBudgetApplicable ? '[&::-moz-range-thumb]:bg-[var(--primary-hover)] opacity-50' : '[&::-moz-range-thumb]:cursor-pointer'}
-                      [&::-moz-range-thumb]:border-none
-                    `}
-                    aria-describedby="thinking-budget-description"
-                    disabled={!isThinkingBudgetApplicable}
-                  />
-                  <span className={`text-xs sm:text-sm w-8 text-center tabular-nums ${!isThinkingBudgetApplicable ? 'text-[var(--text-placeholder)]' : 'text-[var(--text-primary)]'}`}>
-                    {isThinkingBudgetApplicable ? thinkingBudget : '-'}
-                  </span>
+                </p>
+                <div className="flex flex-wrap gap-1.5 sm:gap-2 pt-1" role="radiogroup" aria-labelledby="thinking-level-label" aria-describedby="thinking-budget-description">
+                  {THINKING_LEVELS.map(level => (
+                    <button
+                      key={level.value}
+                      onClick={() => onSetThinkingLevel(level.value)}
+                      disabled={!isThinkingBudgetApplicable}
+                      role="radio"
+                      aria-checked={thinkingLevel === level.value}
+                      title={level.description}
+                      className={`px-3 py-1.5 rounded-md text-xs sm:text-sm focus:outline-none focus:ring-1 focus:ring-[var(--ring)] disabled:opacity-50 disabled:cursor-not-allowed
+                        ${thinkingLevel === level.value
+                          ? 'bg-[var(--primary)] text-[var(--text-on-primary)]'
+                          : 'bg-[var(--surface-3)] text-[var(--text-primary)] hover:bg-[var(--surface-active)]'}`}
+                    >
+                      {level.label}
+                    </button>
+                  ))}
                 </div>
                 <p id="thinking-budget-description" className="text-[10px] xs:text-xs text-[var(--text-secondary)] mt-1.5 sm:mt-2 whitespace-pre-line">
                   {thinkingBudgetDescription}
@@ -208,6 +252,49 @@ const SettingsPage: React.FC<SettingsPageProps> = ({
               </div>
             </section>
             
+            <section aria-labelledby="generation-heading" className="bg-[var(--surface-2)] p-3 sm:p-4 rounded-lg">
+              <h3 id="generation-heading" className="text-sm sm:text-md font-semibold text-[var(--text-primary)] mb-2 sm:mb-3 flex items-center">
+                <Dices className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+                Generation Parameters
+              </h3>
+              <GenerationParamsEditor idPrefix="global-params" params={generationParams} onChange={onSetGenerationParams} />
+              <p className="text-[10px] xs:text-xs text-[var(--text-secondary)] mt-1.5 sm:mt-2">
+                Leave a field empty to use the model's default. Values outside what the current model accepts are adjusted to the nearest allowed value. Individual chats can override these from the sliders button in the chat header.
+              </p>
+            </section>
+
+            <PersonaSettings
+              personas={personas}
+              onCreatePersona={onCreatePersona}
+              onUpdatePersona={onUpdatePersona}
+              onDeletePersona={onDeletePersona}
+            />
+
+            <section aria-labelledby="context-heading" className="bg-[var(--surface-2)] p-3 sm:p-4 rounded-lg">
+              <h3 id="context-heading" className="text-sm sm:text-md font-semibold text-[var(--text-primary)] mb-2 sm:mb-3 flex items-center">
+                <Layers className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+                Conversation Memory
+              </h3>
+              <label htmlFor="context-limit-select" className="block text-xs sm:text-sm text-[var(--text-primary)] mb-1.5">
+                Context sent with each message:
+              </label>
+              <select
+                id="context-limit-select"
+                value={contextTokenLimit}
+                onChange={(e) => onSetContextTokenLimit(parseInt(e.target.value, 10))}
+                className="w-full bg-[var(--background)] text-[var(--text-primary)] border border-[var(--border-color-light)] rounded-md p-2 sm:p-2.5 focus:ring-1 focus:ring-[var(--ring)] focus:border-[var(--ring)] focus:outline-none text-xs sm:text-sm"
+              >
+                {CONTEXT_TOKEN_LIMIT_OPTIONS.map(limit => (
+                  <option key={limit} value={limit}>
+                    {limit === 0 ? 'Model maximum' : `Up to ${formatTokenCount(limit)} tokens`}
+                  </option>
+                ))}
+              </select>
+              <p className="text-[10px] xs:text-xs text-[var(--text-secondary)] mt-1.5 sm:mt-2">
+                When a conversation gets close to this limit, its oldest messages are summarized and the model receives the summary in their place. A lower limit makes long chats faster and cheaper; a higher one keeps more of the original wording.
+              </p>
+            </section>
+
             <section aria-labelledby="translation-heading" className="bg-[var(--surface-2)] p-3 sm:p-4 rounded-lg"> {/* shadow removed */}
               <h3 id="translation-heading" className="text-sm sm:text-md font-semibold text-[var(--text-primary)] mb-2 sm:mb-3 flex items-center">
                 <Languages className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
@@ -231,7 +318,7 @@ const SettingsPage: React.FC<SettingsPageProps> = ({
                   ))}
                 </select>
                 <p className="text-[10px] xs:text-xs text-[var(--text-secondary)] mt-1.5 sm:mt-2">
-                  If a language is selected (other than "None"), AI responses will be automatically translated to that language. Input is expected in English.
+                  If a language is selected (other than "None"), new AI responses and summaries will be automatically translated to that language. The original response is kept and can be shown from each message.
                 </p>
               </div>
             </section>
@@ -317,6 +404,103 @@ const SettingsPage: React.FC<SettingsPageProps> = ({
           </div>
         )}
 
+        {activeCategory === 'data' && (
+          <div id="data-settings-content" className="space-y-5 sm:space-y-6">
+            <section aria-labelledby="backup-heading" className="bg-[var(--surface-2)] p-3 sm:p-4 rounded-lg">
+              <h3 id="backup-heading" className="text-sm sm:text-md font-semibold text-[var(--text-primary)] mb-2 sm:mb-3 flex items-center">
+                <DatabaseBackup className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+                Backup & Restore
+              </h3>
+              <div className="flex flex-wrap gap-2 sm:gap-3">
+                <button
+                  onClick={onExportBackup}
+                  disabled={chatCount === 0}
+                  className="px-3 py-2 sm:px-4 sm:py-2.5 rounded-md text-xs sm:text-sm font-medium bg-[var(--primary)] text-[var(--text-on-primary)] hover:bg-[var(--primary-hover)] transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--ring)] focus:ring-offset-1 focus:ring-offset-[var(--surface-2)] disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                >
+                  <Download className="w-4 h-4 mr-1.5" aria-hidden="true" />
+                  Download backup ({chatCount} chat{chatCount === 1 ? '' : 's'})
+                </button>
+                <button
+                  onClick={() => restoreInputRef.current?.click()}
+                  className="px-3 py-2 sm:px-4 sm:py-2.5 rounded-md text-xs sm:text-sm font-medium border bg-[var(--surface-3)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] border-[var(--border-color-light)] hover:border-[var(--primary)] transition-all focus:outline-none focus:ring-2 focus:ring-[var(--ring)] focus:ring-offset-1 focus:ring-offset-[var(--surface-2)] flex items-center"
+                >
+                  <Upload className="w-4 h-4 mr-1.5" aria-hidden="true" />
+                  Restore from file...
+                </button>
+                <input
+                  ref={restoreInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleRestoreFileChange}
+                  className="hidden"
+                  aria-hidden="true"
+                  tabIndex={-1}
+                />
+              </div>
+              {restoreStatus && (
+                <p className={`text-xs sm:text-sm mt-2 sm:mt-3 p-2 rounded-md ${restoreStatus.isError ? 'text-red-400 bg-red-900/20' : 'text-green-400 bg-green-900/20'}`} role="status">
+                  {restoreStatus.message}
+                </p>
+              )}
+              <p className="text-[10px] xs:text-xs text-[var(--text-secondary)] mt-2 sm:mt-3">
+                A backup contains every chat, including alternate branches and attachments. Restoring merges the file into your existing chats: nothing is overwritten, chats you already have are skipped, and conflicting chats are added as copies. Single-chat JSON exports can be restored the same way.
+              </p>
+            </section>
+
+            <section aria-labelledby="import-heading" className="bg-[var(--surface-2)] p-3 sm:p-4 rounded-lg">
+              <h3 id="import-heading" className="text-sm sm:text-md font-semibold text-[var(--text-primary)] mb-2 sm:mb-3 flex items-center">
+                <Upload className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+                Import From Other Assistants
+              </h3>
+              <button
+                onClick={onOpenImportConversations}
+                className="px-3 py-2 sm:px-4 sm:py-2.5 rounded-md text-xs sm:text-sm font-medium border bg-[var(--surface-3)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] border-[var(--border-color-light)] hover:border-[var(--primary)] transition-all focus:outline-none focus:ring-2 focus:ring-[var(--ring)] focus:ring-offset-1 focus:ring-offset-[var(--surface-2)]"
+              >
+                Import conversations...
+              </button>
+              <p className="text-[10px] xs:text-xs text-[var(--text-secondary)] mt-2 sm:mt-3">
+                Bring in history from ChatGPT's data export (conversations.json) or any JSON file of role/content messages. Original titles and timestamps are kept, and conversations you have already imported are skipped.
+              </p>
+            </section>
+
+            <section aria-labelledby="trash-heading" className="bg-[var(--surface-2)] p-3 sm:p-4 rounded-lg">
+              <h3 id="trash-heading" className="text-sm sm:text-md font-semibold text-[var(--text-primary)] mb-2 sm:mb-3 flex items-center">
+                <Trash2 className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+                Trash
+              </h3>
+              <label htmlFor="trash-retention-select" className="block text-xs sm:text-sm text-[var(--text-primary)] mb-1.5">
+                Keep deleted chats for:
+              </label>
+              <select
+                id="trash-retention-select"
+                value={trashRetentionDays}
+                onChange={(e) => onSetTrashRetentionDays(parseInt(e.target.value, 10))}
+                className="w-full bg-[var(--background)] text-[var(--text-primary)] border border-[var(--border-color-light)] rounded-md p-2 sm:p-2.5 focus:ring-1 focus:ring-[var(--ring)] focus:border-[var(--ring)] focus:outline-none text-xs sm:text-sm"
+              >
+                {TRASH_RETENTION_OPTIONS.map(days => (
+                  <option key={days} value={days}>
+                    {days} day{days === 1 ? '' : 's'}
+                  </option>
+                ))}
+              </select>
+              <p className="text-[10px] xs:text-xs text-[var(--text-secondary)] mt-1.5 sm:mt-2">
+                Deleted chats can be restored from the Trash in the sidebar until this period has passed, after which they are removed for good. Shortening it removes chats that are already past the new limit.
+              </p>
+            </section>
+          </div>
+        )}
+
+        {activeCategory === 'usage' && (
+          <div id="usage-settings-content">
+            <UsageDashboard
+              chats={chats}
+              availableModels={availableModels}
+              modelPrices={modelPrices}
+              onSetModelPrices={onSetModelPrices}
+            />
+          </div>
+        )}
+
         <footer className="text-[10px] xs:text-xs text-[var(--text-secondary)] pt-3 sm:pt-4 text-center mt-3 sm:mt-4">
           Settings are applied globally or to the current chat context where applicable.
         </footer>
@@ -0,0 +1,118 @@
+import React, { useState, FormEvent } from 'react';
+import { LogIn, Loader2 } from 'lucide-react';
+import { AuthMode, AuthStatus } from '../types';
+import { signInWithPassword, signInWithToken } from '../services/authService';
+
+interface SignInScreenProps {
+  mode: AuthMode; // 'session' asks for a username and password, other modes for an access token
+  onSignedIn: (status: AuthStatus) => void;
+}
+
+const inputClassName = "w-full bg-[var(--background)] text-[var(--text-primary)] border border-[var(--border-color-light)] rounded-lg p-2.5 sm:p-3 focus:ring-1 focus:ring-[var(--ring)] focus:border-[var(--ring)] focus:outline-none placeholder-[var(--text-placeholder)] text-xs sm:text-sm";
+
+// Covers the app rather than replacing it, so a chat in progress is still there after
+// signing in again when a session expires.
+const SignInScreen: React.FC<SignInScreenProps> = ({ mode, onSignedIn }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const usesPassword = mode === 'session';
+  const isSubmitDisabled = isSigningIn || (usesPassword ? !username.trim() || !password : !token.trim());
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (isSubmitDisabled) return;
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      const status = usesPassword ? await signInWithPassword(username.trim(), password) : await signInWithToken(token);
+      setPassword('');
+      setToken('');
+      onSignedIn(status);
+    } catch (e: any) {
+      setError(e.message || 'Sign-in failed.');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-[var(--background)] flex items-center justify-center z-[60] p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="sign-in-title"
+    >
+      <form onSubmit={handleSubmit} className="bg-[var(--surface-1)] text-[var(--text-primary)] p-5 sm:p-6 rounded-xl w-full max-w-sm border border-[var(--border-color)] space-y-4">
+        <div>
+          <h2 id="sign-in-title" className="text-lg sm:text-xl font-semibold flex items-center">
+            <LogIn className="w-5 h-5 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+            Sign in to NeuraMorphosis Chat
+          </h2>
+          <p className="text-xs sm:text-sm text-[var(--text-secondary)] mt-1.5">
+            {usesPassword ? 'This server requires an account.' : 'This server requires an access token. Ask its administrator for one.'}
+          </p>
+        </div>
+
+        {usesPassword ? (
+          <>
+            <div className="space-y-1.5">
+              <label htmlFor="sign-in-username" className="block text-xs sm:text-sm font-medium text-[var(--text-secondary)]">Username</label>
+              <input
+                id="sign-in-username"
+                type="text"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className={inputClassName}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-1.5">
+              <label htmlFor="sign-in-password" className="block text-xs sm:text-sm font-medium text-[var(--text-secondary)]">Password</label>
+              <input
+                id="sign-in-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </>
+        ) : (
+          <div className="space-y-1.5">
+            <label htmlFor="sign-in-token" className="block text-xs sm:text-sm font-medium text-[var(--text-secondary)]">Access token</label>
+            <textarea
+              id="sign-in-token"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              rows={mode === 'jwt' ? 4 : 2}
+              className={`${inputClassName} font-mono break-all`}
+              placeholder={mode === 'jwt' ? 'eyJhbGciOi…' : 'Paste your access token'}
+              autoFocus
+            />
+          </div>
+        )}
+
+        {error && (
+          <p className="text-xs sm:text-sm text-red-400 bg-red-900/20 p-2 sm:p-2.5 rounded-md text-center" role="alert">{error}</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitDisabled}
+          className="w-full flex items-center justify-center px-4 py-2 sm:py-2.5 text-xs sm:text-sm font-medium text-[var(--text-on-primary)] bg-[var(--primary)] hover:bg-[var(--primary-hover)] rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--ring)] focus:ring-offset-2 focus:ring-offset-[var(--surface-1)] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSigningIn && <Loader2 className="w-4 h-4 mr-2 animate-spin" aria-hidden="true" />}
+          Sign in
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default SignInScreen;
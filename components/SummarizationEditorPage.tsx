@@ -2,12 +2,14 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { X, Download, MessageSquarePlus, SendHorizonal as SendHorizontal, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { getFriendlyModelName } from '../services/geminiService'; 
+import { getFriendlyModelName } from '../services/modelRegistryService';
+import { fetchProxyStream, readStreamEvents, describeFinishReason } from '../services/streamService';
 
 interface SummarizationEditorPageProps {
   originalText: string;
   onClose: () => void;
   currentChatModelName: string; 
+  targetLanguageName: string | null; // Write the summary and follow-ups in this language when set
 }
 
 // Helper to get raw text content from a markdown AST node
@@ -101,6 +103,7 @@ const SummarizationEditorPage: React.FC<SummarizationEditorPageProps> = ({
   originalText,
   onClose,
   currentChatModelName,
+  targetLanguageName,
 }) => {
   const [displayText, setDisplayText] = useState<string>(originalText);
   const [isSummarizing, setIsSummarizing] = useState<boolean>(false);
@@ -117,29 +120,24 @@ const SummarizationEditorPage: React.FC<SummarizationEditorPageProps> = ({
   const hasSummarizationStartedRef = useRef(false);
   const isReplacingSummaryRef = useRef(false);
 
+  // Text is passed to onChunk as it arrives, so a partial summary stays visible when this throws.
   const streamFromProxy = async (type: 'summarize' | 'summarize-follow-up', prompt: string, model: string, onChunk: (text: string) => void) => {
-    const response = await fetch('/api/proxy', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ type, payload: { prompt, model } }),
-    });
-    
-    if (!response.ok || !response.body) {
-        let errorText = `API request failed with status ${response.status}`;
-        try {
-            const errorJson = await response.json();
-            errorText = errorJson.error || errorText;
-        } catch (e) { /* not json */ }
-        throw new Error(errorText);
+    const response = await fetchProxyStream({ type, payload: { prompt, model } });
+    let finishReason: string | undefined;
+
+    for await (const event of readStreamEvents(response)) {
+      if (event.type === 'text-delta') {
+        onChunk(event.text);
+      } else if (event.type === 'finish') {
+        finishReason = event.reason;
+      } else if (event.type === 'error') {
+        throw new Error(event.message);
+      }
     }
-    
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    
-    while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        onChunk(decoder.decode(value));
+
+    const finishNote = describeFinishReason(finishReason);
+    if (finishNote) {
+      throw new Error(finishNote);
     }
   };
 
@@ -153,7 +151,8 @@ const SummarizationEditorPage: React.FC<SummarizationEditorPageProps> = ({
     setSummaryError(null);
     setIsSummaryComplete(false);
     
-    const prompt = `Concisely summarize the following text. Focus on extracting the key points and main narrative. Do not add any conversational fluff or introductory/concluding phrases like 'Here is the summary:' or 'In conclusion...'. Just provide the summary itself, ensuring it's suitable for direct display in a text editor.\n\nOriginal Text:\n${originalText}\n\nSummary:`;
+    const languageInstruction = targetLanguageName ? ` Write the summary in ${targetLanguageName}, regardless of the language of the original text.` : '';
+    const prompt = `Concisely summarize the following text. Focus on extracting the key points and main narrative. Do not add any conversational fluff or introductory/concluding phrases like 'Here is the summary:' or 'In conclusion...'. Just provide the summary itself, ensuring it's suitable for direct display in a text editor.${languageInstruction}\n\nOriginal Text:\n${originalText}\n\nSummary:`;
     
     let firstChunkReceived = false;
     let currentSummaryAccumulator = "";
@@ -181,7 +180,7 @@ const SummarizationEditorPage: React.FC<SummarizationEditorPageProps> = ({
       setIsSummarizing(false);
       setIsSummaryComplete(true);
     }
-  }, [originalText, currentChatModelName, isSummarizing]);
+  }, [originalText, currentChatModelName, targetLanguageName, isSummarizing]);
 
   useEffect(() => {
     if (originalText && !hasSummarizationStartedRef.current && !isSummarizing) {
@@ -227,7 +226,7 @@ If the user's request requires you to *rewrite or modify the summary itself* (e.
 2. THEN, on new lines, provide the *complete, new, revised summary text*. Do not include any other conversational text before or after the revised summary in this case.
 
 If the user's request is a question *about* the summary that does not require changing the summary text (e.g., "What was the source for this?"), then answer the question directly without using the ${REPLACE_SUMMARY_COMMAND} command.
-
+${targetLanguageName ? `\nWrite your answer or revised summary in ${targetLanguageName}. The ${REPLACE_SUMMARY_COMMAND} command itself must stay exactly as written.\n` : ''}
 Current Summary:
 ${displayText}
 
@@ -11,7 +11,8 @@ interface SummarizeTextModalProps {
 
 type InputMethod = 'text' | 'file';
 
-const MAX_FILE_SIZE_MB = 5;
+// Leaves room within MAX_PROXY_REQUEST_BYTES for the prompt around the text.
+const MAX_FILE_SIZE_MB = 3;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 
 const SummarizeTextModal: React.FC<SummarizeTextModalProps> = ({ isOpen, onClose, onSummarizeSubmit }) => {
@@ -94,6 +95,10 @@ const SummarizeTextModal: React.FC<SummarizeTextModalProps> = ({ isOpen, onClose
         setError('Please enter some text to summarize.');
         return;
       }
+      if (new Blob([inputText]).size > MAX_FILE_SIZE_BYTES) {
+        setError(`Text is too long. Maximum size is ${MAX_FILE_SIZE_MB}MB.`);
+        return;
+      }
       onSummarizeSubmit(inputText);
     } else if (activeInputMethod === 'file') {
       if (!fileContent) {
@@ -1,2 +1,46 @@
-// This file is intentionally left empty as it's being deleted.
-// The functionality has been moved to components/SettingsPage.tsx
\ No newline at end of file
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Brain, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { markdownComponents } from './markdownComponents';
+import { formatThinkingDuration } from '../services/thinkingService';
+
+interface ThinkingModePanelProps {
+  thoughts: string; // Summaries of the model's thinking, not its full reasoning
+  thinkingMs?: number;
+  isThinking: boolean; // Thoughts are still streaming and no answer text has arrived yet
+}
+
+// Collapsed by default so the answer stays in front; opens to show the thought summaries.
+const ThinkingModePanel: React.FC<ThinkingModePanelProps> = ({ thoughts, thinkingMs, isThinking }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const label = isThinking
+    ? 'Thinking…'
+    : thinkingMs !== undefined ? `Thought for ${formatThinkingDuration(thinkingMs)}` : 'Thoughts';
+
+  return (
+    <div className="mb-2 border-l-2 border-[var(--border-color-light)] pl-3">
+      <button
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="flex items-center gap-1.5 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] focus:outline-none focus:text-[var(--text-primary)]"
+        aria-expanded={isExpanded}
+      >
+        {isThinking
+          ? <Loader2 className="w-3.5 h-3.5 animate-spin" aria-hidden="true" />
+          : <Brain className="w-3.5 h-3.5" aria-hidden="true" />}
+        <span>{label}</span>
+        {isExpanded ? <ChevronUp className="w-3.5 h-3.5" aria-hidden="true" /> : <ChevronDown className="w-3.5 h-3.5" aria-hidden="true" />}
+      </button>
+      {isExpanded && (
+        <div className="mt-1.5 text-xs sm:text-sm text-[var(--text-secondary)] max-h-80 overflow-y-auto">
+          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+            {thoughts}
+          </ReactMarkdown>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThinkingModePanel;
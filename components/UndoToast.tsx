@@ -0,0 +1,40 @@
+import React, { useEffect } from 'react';
+import { X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, durationMs = 8000 }) => {
+  useEffect(() => {
+    const timeout = window.setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timeout);
+  }, [message, onDismiss, durationMs]);
+
+  return (
+    <div
+      className="fixed bottom-24 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-[var(--surface-1)] backdrop-blur-xl border border-[var(--border-color-light)] text-[var(--text-primary)] text-sm rounded-lg shadow-lg pl-4 pr-2 py-2"
+      role="status"
+    >
+      <span>{message}</span>
+      <button
+        onClick={() => { onUndo(); onDismiss(); }}
+        className="font-semibold text-[var(--primary)] hover:underline focus:outline-none focus:underline"
+      >
+        Undo
+      </button>
+      <button
+        onClick={onDismiss}
+        className="p-1 rounded-full text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--surface-3)] focus:outline-none focus:ring-1 focus:ring-[var(--ring)]"
+        aria-label="Dismiss"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,185 @@
+import React, { useState, useMemo } from 'react';
+import { BarChart3, DollarSign } from 'lucide-react';
+import { StoredChat, ModelPrice } from '../types';
+import { getFriendlyModelName, getDefaultModelPrices } from '../services/modelRegistryService';
+import {
+  UsageGrouping,
+  collectUsageRecords,
+  summarizeUsage,
+  formatTokenCount,
+  formatCost,
+  UNKNOWN_MODEL,
+} from '../services/usageService';
+
+interface UsageDashboardProps {
+  chats: StoredChat[];
+  availableModels: string[];
+  modelPrices: Record<string, ModelPrice>;
+  onSetModelPrices: (prices: Record<string, ModelPrice>) => void;
+}
+
+const groupingOptions: { value: UsageGrouping; label: string }[] = [
+  { value: 'chat', label: 'By chat' },
+  { value: 'model', label: 'By model' },
+  { value: 'day', label: 'By day' },
+];
+
+const priceInputClasses = "w-20 bg-[var(--background)] text-[var(--text-primary)] border border-[var(--border-color-light)] rounded-md px-2 py-1 focus:ring-1 focus:ring-[var(--ring)] focus:border-[var(--ring)] focus:outline-none text-xs text-right tabular-nums";
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ chats, availableModels, modelPrices, onSetModelPrices }) => {
+  const [grouping, setGrouping] = useState<UsageGrouping>('chat');
+
+  const records = useMemo(() => collectUsageRecords(chats), [chats]);
+  const total = useMemo(() => summarizeUsage(records, null, modelPrices)[0], [records, modelPrices]);
+  const rows = useMemo(() => summarizeUsage(records, grouping, modelPrices), [records, grouping, modelPrices]);
+
+  // Models that appear in recorded usage get a price row too, even if no longer offered.
+  const pricedModels = useMemo(() => {
+    const usedModels = records.map(record => record.model).filter(model => model !== UNKNOWN_MODEL);
+    return Array.from(new Set([...availableModels, ...usedModels]));
+  }, [records, availableModels]);
+
+  const updatePrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const parsed = parseFloat(value);
+    const current = modelPrices[model] || { inputPerMillion: 0, outputPerMillion: 0 };
+    onSetModelPrices({ ...modelPrices, [model]: { ...current, [field]: isNaN(parsed) || parsed < 0 ? 0 : parsed } });
+  };
+
+  const rowLabel = (label: string) => grouping === 'model' && label !== UNKNOWN_MODEL ? getFriendlyModelName(label) : label;
+
+  return (
+    <div className="space-y-5 sm:space-y-6">
+      <section aria-labelledby="usage-heading" className="bg-[var(--surface-2)] p-3 sm:p-4 rounded-lg">
+        <h3 id="usage-heading" className="text-sm sm:text-md font-semibold text-[var(--text-primary)] mb-2 sm:mb-3 flex items-center">
+          <BarChart3 className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+          Token Usage
+        </h3>
+
+        {!total ? (
+          <p className="text-xs sm:text-sm text-[var(--text-secondary)]">No usage recorded yet. Token counts are saved with each new AI response.</p>
+        ) : (
+          <>
+            <dl className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-3 mb-3 sm:mb-4">
+              {[
+                { label: 'Estimated cost', value: formatCost(total.cost) },
+                { label: 'Total tokens', value: formatTokenCount(total.totalTokens) },
+                { label: 'Prompt / output', value: `${formatTokenCount(total.promptTokens)} / ${formatTokenCount(total.outputTokens)}` },
+                { label: 'Responses', value: String(total.responses) },
+              ].map(({ label, value }) => (
+                <div key={label} className="bg-[var(--background)] rounded-md p-2 sm:p-2.5">
+                  <dt className="text-[10px] xs:text-xs text-[var(--text-secondary)]">{label}</dt>
+                  <dd className="text-sm sm:text-base font-semibold tabular-nums">{value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            <div className="flex space-x-2 mb-2" role="group" aria-label="Group usage">
+              {groupingOptions.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setGrouping(option.value)}
+                  className={`px-2.5 py-1 rounded-md text-xs font-medium border transition-all focus:outline-none focus:ring-1 focus:ring-[var(--ring)]
+                    ${grouping === option.value
+                      ? 'bg-[var(--primary)] text-[var(--text-on-primary)] border-[var(--primary)]'
+                      : 'bg-[var(--surface-3)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] border-[var(--border-color-light)]'
+                    }`}
+                  aria-pressed={grouping === option.value}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto max-h-80 overflow-y-auto rounded-md border border-[var(--border-color)]">
+              <table className="w-full text-xs sm:text-sm">
+                <thead className="bg-[var(--surface-3)] text-[var(--text-secondary)] sticky top-0">
+                  <tr>
+                    <th scope="col" className="text-left font-medium p-2">{groupingOptions.find(option => option.value === grouping)?.label.replace('By ', '')}</th>
+                    <th scope="col" className="text-right font-medium p-2">Responses</th>
+                    <th scope="col" className="text-right font-medium p-2">Prompt</th>
+                    <th scope="col" className="text-right font-medium p-2">Output</th>
+                    <th scope="col" className="text-right font-medium p-2">Thinking</th>
+                    <th scope="col" className="text-right font-medium p-2">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.key} className="border-t border-[var(--border-color)]">
+                      <td className="p-2 max-w-[12rem] truncate" title={rowLabel(row.label)}>{rowLabel(row.label)}</td>
+                      <td className="p-2 text-right tabular-nums">{row.responses}</td>
+                      <td className="p-2 text-right tabular-nums">{formatTokenCount(row.promptTokens)}</td>
+                      <td className="p-2 text-right tabular-nums">{formatTokenCount(row.outputTokens)}</td>
+                      <td className="p-2 text-right tabular-nums">{formatTokenCount(row.thoughtTokens)}</td>
+                      <td className="p-2 text-right tabular-nums">{formatCost(row.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+        <p className="text-[10px] xs:text-xs text-[var(--text-secondary)] mt-2 sm:mt-3">
+          Counts come from the model's own usage report for each completed chat response. Not included: replies that were stopped or failed before the report arrived, chat titles, translations, context compaction and the summarization editor. Chats removed from the trash take their usage with them.
+        </p>
+      </section>
+
+      <section aria-labelledby="prices-heading" className="bg-[var(--surface-2)] p-3 sm:p-4 rounded-lg">
+        <h3 id="prices-heading" className="text-sm sm:text-md font-semibold text-[var(--text-primary)] mb-2 sm:mb-3 flex items-center">
+          <DollarSign className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-[var(--primary)]" strokeWidth={1.5} aria-hidden="true" />
+          Model Prices
+        </h3>
+        <table className="w-full text-xs sm:text-sm">
+          <thead className="text-[var(--text-secondary)]">
+            <tr>
+              <th scope="col" className="text-left font-medium pb-1.5">Model</th>
+              <th scope="col" className="text-right font-medium pb-1.5">Input $/1M</th>
+              <th scope="col" className="text-right font-medium pb-1.5">Output $/1M</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pricedModels.map(model => (
+              <tr key={model}>
+                <td className="py-1 pr-2">{getFriendlyModelName(model)}</td>
+                <td className="py-1 text-right">
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={modelPrices[model]?.inputPerMillion ?? ''}
+                    onChange={(e) => updatePrice(model, 'inputPerMillion', e.target.value)}
+                    className={priceInputClasses}
+                    aria-label={`Input price per million tokens for ${getFriendlyModelName(model)}`}
+                  />
+                </td>
+                <td className="py-1 text-right">
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={modelPrices[model]?.outputPerMillion ?? ''}
+                    onChange={(e) => updatePrice(model, 'outputPerMillion', e.target.value)}
+                    className={priceInputClasses}
+                    aria-label={`Output price per million tokens for ${getFriendlyModelName(model)}`}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex items-center justify-between mt-2 sm:mt-3 gap-3">
+          <p className="text-[10px] xs:text-xs text-[var(--text-secondary)]">
+            Prices in US dollars per million tokens. Thinking tokens are charged at the output price.
+          </p>
+          <button
+            onClick={() => onSetModelPrices(getDefaultModelPrices())}
+            className="px-2.5 py-1 rounded-md text-xs font-medium border bg-[var(--surface-3)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] border-[var(--border-color-light)] hover:border-[var(--primary)] transition-all focus:outline-none focus:ring-1 focus:ring-[var(--ring)] flex-shrink-0"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,89 @@
+import React from 'react';
+
+// Helper to get raw text content from a markdown AST node
+const getNodeText = (node: any): string => {
+  if (!node) return '';
+  if (node.type === 'text') {
+    return node.value || '';
+  }
+  if (node.children && Array.isArray(node.children)) {
+    return node.children.map(getNodeText).join('');
+  }
+  return '';
+};
+
+// Helper to identify paragraphs that only contain bolded text, to treat them as headers.
+const isParagraphWithOnlyBold = (node: any): boolean => {
+  if (!node || node.type !== 'paragraph' || !node.children) return false;
+
+  // Filter out empty text nodes (e.g., newlines) that the markdown-parser creates
+  const significantChildren = node.children.filter((child: any) =>
+    child.type === 'text' ? child.value.trim() !== '' : true
+  );
+
+  if (significantChildren.length === 0) return false;
+
+  // Check if all significant children are 'strong' elements
+  return significantChildren.every(child => child.type === 'strong');
+};
+
+// Shared by chat messages and the standalone HTML chat export, so both render identically.
+export const markdownComponents = {
+  p: ({ node, ...props }: any) => {
+    const isHeader = isParagraphWithOnlyBold(node);
+    const textContent = getNodeText(node).trim();
+    if (textContent === '') {
+      return null;
+    }
+
+    return (
+      <div className="w-full">
+        <p
+          className={isHeader ? "text-xl font-semibold mt-4 mb-2" : "mb-4"}
+          {...props}
+        />
+      </div>
+    );
+  },
+  strong: ({ node, ...props }: any) => <strong className="font-semibold" {...props} />,
+  em: ({ node, ...props }: any) => <em className="italic" {...props} />,
+  ul: ({ node, ...props }: any) => <div className="w-full"><ul className="list-disc list-inside my-2 space-y-1 pl-4" {...props} /></div>,
+  ol: ({ node, ...props }: any) => <div className="w-full"><ol className="list-decimal list-inside my-2 space-y-1 pl-4" {...props} /></div>,
+  li: ({ node, ...props }: any) => {
+    // Do not render list items that are effectively empty (contain no visible text).
+    if (getNodeText(node).trim() === '') {
+      return null;
+    }
+    return <li className="mb-0.5" {...props} />;
+  },
+  a: ({ node, ...props }: any) => <a className="text-[var(--primary)] hover:text-[var(--primary-hover)] hover:underline" target="_blank" rel="noopener noreferrer" {...props} />,
+  pre: ({ node, ...props }: any) => <div className="w-full"><pre className="bg-black/30 border border-[var(--border-color)] p-3 my-2 rounded-md overflow-x-auto text-base" {...props} /></div>,
+  code({ node, inline, className, children, ...props }: any) {
+    if (!inline) { // For block code
+      return (
+        <code className={`${className || ''} text-[var(--text-primary)] block`} {...props}>
+          {String(children).replace(/\n$/, '')}
+        </code>
+      );
+    }
+    // For inline code
+    return <code className="bg-[var(--surface-active)] text-[var(--text-accent)] px-1 py-0.5 rounded text-base" {...props}>{children}</code>;
+  },
+  h1: ({ node, ...props }: any) => <div className="w-full"><h1 className="text-3xl font-bold my-4 text-[var(--text-primary)]" {...props} /></div>,
+  h2: ({ node, ...props }: any) => <div className="w-full"><h2 className="text-2xl font-bold my-3 text-[var(--text-primary)]" {...props} /></div>,
+  h3: ({ node, ...props }: any) => <div className="w-full"><h3 className="text-xl font-semibold my-2 text-[var(--text-primary)]" {...props} /></div>,
+  h4: ({ node, ...props }: any) => <div className="w-full"><h4 className="text-lg font-semibold my-1.5 text-[var(--text-primary)]" {...props} /></div>,
+  h5: ({ node, ...props }: any) => <div className="w-full"><h5 className="text-base font-bold my-1 text-[var(--text-primary)]" {...props} /></div>,
+  h6: ({ node, ...props }: any) => <div className="w-full"><h6 className="text-sm font-medium my-1 text-[var(--text-primary)]" {...props} /></div>,
+  blockquote: ({ node, ...props }: any) => <div className="w-full"><blockquote className="border-l-4 border-[var(--primary)] pl-4 italic my-2 text-[var(--text-secondary)]" {...props} /></div>,
+  table: ({ node, ...props }: any) => (
+    <div className="w-full">
+      <div className="overflow-x-auto my-2 bg-[var(--surface-1)] p-2 rounded-md">
+        <table className="min-w-full border-collapse border border-[var(--border-color)] text-sm text-[var(--text-primary)]" {...props} />
+      </div>
+    </div>
+  ),
+  thead: ({ node, ...props }: any) => <thead className="bg-[var(--surface-active)]" {...props} />,
+  th: ({ node, ...props }: any) => <th className="border border-[var(--border-color)] px-3 py-2 text-left bg-[var(--surface-active)] font-semibold text-[var(--text-primary)]" {...props} />,
+  td: ({ node, ...props }: any) => <td className="border border-[var(--border-color)] px-3 py-2" {...props} />,
+};
@@ -0,0 +1,259 @@
+// Local development server: serves the app from dist/ and runs api/proxy.ts on the same
+// origin, the way Vercel does in production. Both are rebuilt with esbuild on change;
+// open pages reload once the app bundle is rebuilt, and the next API request uses the
+// rebuilt handler.
+//
+//   npm run dev                  (http://localhost:3000, or PORT)
+//
+// It listens on 127.0.0.1 only, as the handler holds real API keys. Set HOST (e.g. 0.0.0.0)
+// to reach it from other devices.
+//
+// index.html and metadata.json are copied to dist/ at startup only.
+//
+// Environment variables are read from .env.local, then .env, without overriding ones
+// already set. GEMINI_API_KEY is accepted as an alias for API_KEY.
+
+import { createServer } from 'node:http';
+import { copyFile, mkdir, readFile, stat } from 'node:fs/promises';
+import { existsSync, readFileSync } from 'node:fs';
+import { extname, join, normalize, resolve, sep } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import * as esbuild from 'esbuild';
+
+const ROOT = resolve(import.meta.dirname, '..');
+const DIST = join(ROOT, 'dist');
+// Inside node_modules so the handler's package imports resolve from the project.
+const HANDLER_OUTFILE = join(ROOT, 'node_modules', '.cache', 'dev-server', 'proxy.mjs');
+const PORT = Number(process.env.PORT) || 3000;
+const HOST = process.env.HOST || '127.0.0.1';
+const RELOAD_PATH = '/__dev/reload';
+
+function loadEnvFiles() {
+  for (const file of ['.env.local', '.env']) {
+    const path = join(ROOT, file);
+    if (!existsSync(path)) continue;
+    for (const line of readFileSync(path, 'utf8').split(/\r?\n/)) {
+      const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)\s*$/);
+      if (!match || line.trimStart().startsWith('#')) continue;
+      const [, key, rawValue] = match;
+      const value = rawValue.replace(/^(['"])(.*)\1$/, '$2');
+      if (process.env[key] === undefined) process.env[key] = value;
+    }
+    console.log(`Loaded environment from ${file}`);
+  }
+  if (!process.env.API_KEY && process.env.GEMINI_API_KEY) {
+    process.env.API_KEY = process.env.GEMINI_API_KEY;
+  }
+}
+
+// --- Live reload -------------------------------------------------------------
+
+const reloadClients = new Set();
+
+const notifyReload = () => {
+  for (const res of reloadClients) res.write('event: change\ndata: reload\n\n');
+};
+
+const LIVE_RELOAD_SNIPPET = `new EventSource('${RELOAD_PATH}').addEventListener('change', () => location.reload());`;
+
+// --- Builds ------------------------------------------------------------------
+
+const logBuild = name => ({
+  name: `log-${name}`,
+  setup(build) {
+    let startedAt = 0;
+    build.onStart(() => { startedAt = Date.now(); });
+    build.onEnd(result => {
+      if (result.errors.length === 0) console.log(`Built ${name} in ${Date.now() - startedAt}ms`);
+    });
+  },
+});
+
+async function startAppBuild() {
+  await mkdir(DIST, { recursive: true });
+  await copyFile(join(ROOT, 'index.html'), join(DIST, 'index.html'));
+  await copyFile(join(ROOT, 'metadata.json'), join(DIST, 'metadata.json'));
+  const context = await esbuild.context({
+    entryPoints: [join(ROOT, 'index.tsx')],
+    bundle: true,
+    outfile: join(DIST, 'assets', 'bundle.js'),
+    format: 'esm',
+    platform: 'browser',
+    jsx: 'automatic',
+    loader: { '.png': 'dataurl', '.svg': 'dataurl' },
+    define: { 'process.env.NODE_ENV': '"development"' },
+    sourcemap: 'inline',
+    banner: { js: LIVE_RELOAD_SNIPPET },
+    logLevel: 'warning',
+    plugins: [
+      logBuild('app'),
+      {
+        name: 'live-reload',
+        setup(build) {
+          build.onEnd(result => {
+            if (result.errors.length === 0) notifyReload();
+          });
+        },
+      },
+    ],
+  });
+  await context.watch();
+}
+
+let handlerPromise = null;
+
+async function startHandlerBuild() {
+  const context = await esbuild.context({
+    entryPoints: [join(ROOT, 'api', 'proxy.ts')],
+    bundle: true,
+    outfile: HANDLER_OUTFILE,
+    format: 'esm',
+    platform: 'node',
+    packages: 'external',
+    sourcemap: 'inline',
+    logLevel: 'warning',
+    plugins: [
+      logBuild('api/proxy.ts'),
+      {
+        name: 'reload-handler',
+        setup(build) {
+          build.onEnd(result => {
+            // A fresh import also resets the handler's module-level caches.
+            if (result.errors.length === 0) {
+              handlerPromise = import(`${pathToFileURL(HANDLER_OUTFILE).href}?t=${Date.now()}`).then(module => module.default);
+            }
+          });
+        },
+      },
+    ],
+  });
+  await context.watch();
+}
+
+// --- Serving -----------------------------------------------------------------
+
+const CONTENT_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+};
+
+const readRequestBody = req => new Promise((resolveBody, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolveBody(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+// Converts between Node's http objects and the Web Request/Response the edge handler uses.
+// Closing the connection aborts the request signal and cancels the response stream.
+async function runHandler(req, res) {
+  if (!handlerPromise) {
+    res.writeHead(503, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'The API handler is still building' }));
+    return;
+  }
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) abortController.abort();
+  });
+
+  const body = req.method === 'GET' || req.method === 'HEAD' ? undefined : await readRequestBody(req);
+  const headers = new Headers(Object.entries(req.headers).flatMap(([name, value]) =>
+    Array.isArray(value) ? value.map(item => [name, item]) : value === undefined ? [] : [[name, value]]));
+  // Vercel passes the client's address this way; the per-IP rate limits key on it. Set from
+  // the connection, whatever the client sent, so it can't be forged.
+  if (req.socket.remoteAddress) {
+    headers.set('x-real-ip', req.socket.remoteAddress);
+    headers.set('x-forwarded-for', [headers.get('x-forwarded-for'), req.socket.remoteAddress].filter(Boolean).join(', '));
+  }
+  const request = new Request(`http://localhost:${PORT}${req.url}`, {
+    method: req.method,
+    headers,
+    body,
+    signal: abortController.signal,
+  });
+
+  let response;
+  try {
+    const handler = await handlerPromise;
+    response = await handler(request);
+  } catch (error) {
+    console.error('api/proxy.ts threw', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: error?.message || 'The API handler threw an error' }));
+    return;
+  }
+
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  if (!response.body) {
+    res.end();
+    return;
+  }
+  const reader = response.body.getReader();
+  abortController.signal.addEventListener('abort', () => reader.cancel().catch(() => {}), { once: true });
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(value);
+    }
+  } catch (error) {
+    if (!abortController.signal.aborted) console.error('Error while streaming the api/proxy.ts response', error);
+  }
+  res.end();
+}
+
+// Unknown paths without a file extension get index.html, like the rewrite in vercel.json.
+async function serveStatic(req, res) {
+  const pathname = decodeURIComponent(new URL(req.url, 'http://localhost').pathname);
+  let filePath = normalize(join(DIST, pathname));
+  // A plain prefix check would also let through siblings such as dist-old/.
+  if (filePath !== DIST && !filePath.startsWith(DIST + sep)) {
+    res.writeHead(403);
+    res.end();
+    return;
+  }
+  const isFile = await stat(filePath).then(stats => stats.isFile(), () => false);
+  if (!isFile) {
+    if (extname(pathname)) {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end(`Not found: ${pathname}`);
+      return;
+    }
+    filePath = join(DIST, 'index.html');
+  }
+  res.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[extname(filePath)] || 'application/octet-stream',
+    'Cache-Control': 'no-store',
+  });
+  res.end(await readFile(filePath));
+}
+
+function serveReloadEvents(req, res) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  res.write(': connected\n\n');
+  reloadClients.add(res);
+  req.on('close', () => reloadClients.delete(res));
+}
+
+loadEnvFiles();
+await Promise.all([startAppBuild(), startHandlerBuild()]);
+
+createServer((req, res) => {
+  const { pathname } = new URL(req.url, 'http://localhost');
+  const handle = pathname === RELOAD_PATH ? serveReloadEvents
+    : pathname === '/api/proxy' ? runHandler
+    : serveStatic;
+  Promise.resolve(handle(req, res)).catch(error => {
+    console.error(`Error serving ${req.method} ${req.url}`, error);
+    if (!res.headersSent) res.writeHead(500);
+    res.end();
+  });
+}).listen(PORT, HOST, () => {
+  console.log(`Dev server running at http://${HOST === '127.0.0.1' ? 'localhost' : HOST}:${PORT}`);
+});
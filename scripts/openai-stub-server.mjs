@@ -0,0 +1,154 @@
+// A minimal OpenAI-compatible Chat Completions server for trying the proxy's 'openai'
+// provider without a model or network access. Replies are deterministic: they quote the
+// last user message, streamed word by word, with a short "reasoning" preamble.
+//
+//   npm run stub:openai                      (listens on http://localhost:8081)
+//   OPENAI_BASE_URL=http://localhost:8081/v1
+//   MODEL_REGISTRY='{"models":[{"id":"stub-model","provider":"openai", ...a full entry}]}'
+//
+// Messages containing these markers trigger edge cases:
+//   stub:error    the request fails with a 500 before streaming starts
+//   stub:midway   the stream breaks off with an error after a few words
+//   stub:length   the reply ends with finish_reason "length"
+//
+// Environment: STUB_PORT (default 8081), STUB_DELAY_MS between chunks (default 30).
+
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.STUB_PORT) || 8081;
+const DELAY_MS = Number(process.env.STUB_DELAY_MS ?? 30);
+const MODEL_ID = 'stub-model';
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+const readBody = req => new Promise((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const messageText = content =>
+  typeof content === 'string'
+    ? content
+    : (content || []).map(part => (part.type === 'text' ? part.text : `[${part.type}]`)).join(' ');
+
+// Whitespace-based token counts, close enough for the usage display.
+const countTokens = text => text.split(/\s+/).filter(Boolean).length;
+
+function buildReply(messages, candidate) {
+  const lastUser = [...messages].reverse().find(message => message.role === 'user');
+  const quoted = messageText(lastUser?.content).trim() || '(nothing)';
+  const variant = candidate > 0 ? ` This is alternate reply ${candidate + 1}.` : '';
+  return `You said: "${quoted}".${variant} This reply comes from the local stub server.`;
+}
+
+async function streamCompletion(res, request) {
+  const { messages, n = 1 } = request;
+  const lastUserText = messageText([...messages].reverse().find(message => message.role === 'user')?.content);
+  const id = `chatcmpl-stub-${Date.now()}`;
+  const chunk = choices => ({ id, object: 'chat.completion.chunk', created: Math.floor(Date.now() / 1000), model: request.model, choices });
+
+  let closed = false;
+  res.on('close', () => { closed = true; });
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  const send = data => res.write(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+
+  const reasoning = 'Reading the message and preparing a reply.';
+  send(chunk([{ index: 0, delta: { role: 'assistant', reasoning_content: reasoning }, finish_reason: null }]));
+
+  const replies = Array.from({ length: Math.max(1, n) }, (_, candidate) => buildReply(messages, candidate).split(/(?<= )/));
+  const longest = Math.max(...replies.map(words => words.length));
+  for (let position = 0; position < longest && !closed; position++) {
+    if (lastUserText.includes('stub:midway') && position === 3) {
+      send({ error: { message: 'Stub server: simulated failure mid-stream' } });
+      res.end();
+      return;
+    }
+    const choices = replies
+      .map((words, index) => ({ index, delta: { content: words[position] }, finish_reason: null }))
+      .filter(choice => choice.delta.content !== undefined);
+    send(chunk(choices));
+    await sleep(DELAY_MS);
+  }
+  if (closed) return;
+
+  const finishReason = lastUserText.includes('stub:length') ? 'length' : 'stop';
+  send(chunk(replies.map((_, index) => ({ index, delta: {}, finish_reason: finishReason }))));
+
+  const promptTokens = messages.reduce((total, message) => total + countTokens(messageText(message.content)), 0);
+  const completionTokens = replies.reduce((total, words) => total + words.length, 0) + countTokens(reasoning);
+  send({
+    ...chunk([]),
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+      completion_tokens_details: { reasoning_tokens: countTokens(reasoning) },
+    },
+  });
+  send('[DONE]');
+  res.end();
+}
+
+function completeChat(res, request) {
+  const replies = Array.from({ length: Math.max(1, request.n || 1) }, (_, candidate) => buildReply(request.messages, candidate));
+  const promptTokens = request.messages.reduce((total, message) => total + countTokens(messageText(message.content)), 0);
+  const completionTokens = replies.reduce((total, reply) => total + countTokens(reply), 0);
+  sendJson(res, 200, {
+    id: `chatcmpl-stub-${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: request.model,
+    choices: replies.map((content, index) => ({ index, message: { role: 'assistant', content }, finish_reason: 'stop' })),
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+  });
+}
+
+const server = createServer(async (req, res) => {
+  const path = new URL(req.url, `http://localhost:${PORT}`).pathname.replace(/\/+$/, '');
+
+  if (req.method === 'GET' && path === '/v1/models') {
+    sendJson(res, 200, { object: 'list', data: [{ id: MODEL_ID, object: 'model', owned_by: 'stub' }] });
+    return;
+  }
+
+  if (req.method !== 'POST' || path !== '/v1/chat/completions') {
+    sendJson(res, 404, { error: { message: `No route for ${req.method} ${path}` } });
+    return;
+  }
+
+  let request;
+  try {
+    request = JSON.parse(await readBody(req));
+  } catch (error) {
+    sendJson(res, 400, { error: { message: 'Request body is not valid JSON' } });
+    return;
+  }
+  if (!Array.isArray(request.messages) || request.messages.length === 0) {
+    sendJson(res, 400, { error: { message: '"messages" must be a non-empty array' } });
+    return;
+  }
+
+  const lastUserText = messageText([...request.messages].reverse().find(message => message.role === 'user')?.content);
+  if (lastUserText.includes('stub:error')) {
+    sendJson(res, 500, { error: { message: 'Stub server: simulated upstream failure' } });
+    return;
+  }
+
+  if (request.stream) {
+    await streamCompletion(res, request);
+  } else {
+    completeChat(res, request);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`OpenAI-compatible stub server listening on http://localhost:${PORT}/v1`);
+});
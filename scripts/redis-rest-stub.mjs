@@ -0,0 +1,110 @@
+// An in-memory stand-in for the Upstash Redis REST API, covering the commands the proxy's
+// rate limits use, so the Redis store can be tried without a Redis server.
+//
+//   npm run stub:redis                       (listens on http://localhost:8079)
+//   UPSTASH_REDIS_REST_URL=http://localhost:8079
+//   UPSTASH_REDIS_REST_TOKEN=stub-token
+//
+// Supports POST / (one command), /pipeline and /multi-exec (lists of commands) with the
+// commands GET, SET (with PX and NX), INCRBY, PTTL and DEL.
+//
+// Environment: STUB_PORT (default 8079), STUB_TOKEN (default "stub-token").
+
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.STUB_PORT) || 8079;
+const TOKEN = process.env.STUB_TOKEN || 'stub-token';
+
+const values = new Map(); // key -> { value: string, expiresAt: number | null }
+
+const readEntry = key => {
+  const entry = values.get(key);
+  if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+    values.delete(key);
+    return undefined;
+  }
+  return entry;
+};
+
+function runCommand([name, ...args]) {
+  const key = String(args[0]);
+  switch (String(name).toUpperCase()) {
+    case 'GET':
+      return readEntry(key)?.value ?? null;
+    case 'SET': {
+      const options = args.slice(2).map(String);
+      const upper = options.map(option => option.toUpperCase());
+      if (upper.includes('NX') && readEntry(key)) return null;
+      const pxIndex = upper.indexOf('PX');
+      const expiresAt = pxIndex >= 0 ? Date.now() + Number(options[pxIndex + 1]) : null;
+      values.set(key, { value: String(args[1]), expiresAt });
+      return 'OK';
+    }
+    case 'INCRBY': {
+      const entry = readEntry(key) ?? { value: '0', expiresAt: null };
+      const current = Number(entry.value);
+      if (!Number.isInteger(current)) throw new Error('ERR value is not an integer or out of range');
+      entry.value = String(current + Number(args[1]));
+      values.set(key, entry);
+      return Number(entry.value);
+    }
+    case 'PTTL': {
+      const entry = readEntry(key);
+      if (!entry) return -2;
+      return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+    }
+    case 'DEL':
+      return args.filter(arg => values.delete(String(arg))).length;
+    default:
+      throw new Error(`ERR unknown command '${name}'`);
+  }
+}
+
+const reply = command => {
+  try {
+    return { result: runCommand(command) };
+  } catch (error) {
+    return { error: error.message };
+  }
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+createServer(async (req, res) => {
+  if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+    sendJson(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+  let body;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (error) {
+    sendJson(res, 400, { error: 'ERR failed to parse the request body' });
+    return;
+  }
+  if (req.method !== 'POST' || !Array.isArray(body)) {
+    sendJson(res, 400, { error: 'ERR expected a POST with a JSON array' });
+    return;
+  }
+  if (req.url === '/') {
+    sendJson(res, 200, reply(body));
+  } else if (req.url === '/pipeline' || req.url === '/multi-exec') {
+    // Commands run one after another without awaiting, so a list is never interleaved.
+    sendJson(res, 200, body.map(reply));
+  } else {
+    sendJson(res, 404, { error: `Unknown endpoint ${req.url}` });
+  }
+}).listen(PORT, () => {
+  console.log(`Redis REST stub listening on http://localhost:${PORT} (token "${TOKEN}")`);
+});
@@ -0,0 +1,74 @@
+import { AuthStatus } from '../types';
+import * as localStorageService from './localStorageService';
+
+// Signing in to /api/proxy. Token and JWT modes send the saved access token as a bearer
+// header; session mode relies on the HttpOnly cookie set by the server, which the
+// browser sends on its own. Any 401 from the proxy asks the app to show the sign-in screen.
+
+let accessToken: string | null = localStorageService.loadAuthToken();
+const signInRequiredListeners = new Set<() => void>();
+
+// Returns a function that removes the listener.
+export const onSignInRequired = (listener: () => void): (() => void) => {
+  signInRequiredListeners.add(listener);
+  return () => signInRequiredListeners.delete(listener);
+};
+
+// fetch() for /api/proxy, with credentials attached.
+export const fetchProxy = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  if (accessToken) headers.set('Authorization', `Bearer ${accessToken}`);
+  const response = await fetch(url, { ...init, headers, credentials: 'same-origin' });
+  if (response.status === 401) {
+    signInRequiredListeners.forEach(listener => listener());
+  }
+  return response;
+};
+
+const readAuthResponse = async (response: Response): Promise<AuthStatus> => {
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error || `Sign-in request failed with status ${response.status}`);
+  }
+  return body as AuthStatus;
+};
+
+// Not sent through fetchProxy: a signed-out status is an answer, not an error.
+export const fetchAuthStatus = async (): Promise<AuthStatus> => {
+  const response = await fetch('/api/proxy?resource=auth', {
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+    credentials: 'same-origin',
+  });
+  return readAuthResponse(response);
+};
+
+export const signInWithPassword = async (username: string, password: string): Promise<AuthStatus> => {
+  const response = await fetch('/api/proxy?resource=sign-in', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+    credentials: 'same-origin',
+  });
+  return readAuthResponse(response);
+};
+
+// The token is only kept if the server accepts it.
+export const signInWithToken = async (token: string): Promise<AuthStatus> => {
+  const previousToken = accessToken;
+  accessToken = token.trim();
+  try {
+    const status = await fetchAuthStatus();
+    if (!status.user) throw new Error('The server did not accept this access token.');
+    localStorageService.saveAuthToken(accessToken);
+    return status;
+  } catch (error) {
+    accessToken = previousToken;
+    throw error;
+  }
+};
+
+export const signOut = async (): Promise<void> => {
+  accessToken = null;
+  localStorageService.saveAuthToken(null);
+  await fetch('/api/proxy?resource=sign-out', { method: 'POST', credentials: 'same-origin' });
+};
@@ -0,0 +1,168 @@
+import { StoredChat, ChatMessageContent } from '../types';
+import * as localStorageService from './localStorageService';
+
+// Chats live in IndexedDB as one record per chat (without its messages) plus one
+// record per message, so a new turn only writes the rows that actually changed.
+
+const DB_NAME = 'neuramorphosis';
+const CHATS_STORE = 'chats';
+const MESSAGES_STORE = 'messages';
+const MESSAGES_BY_CHAT_INDEX = 'byChatId';
+
+type StoredChatRecord = Omit<StoredChat, 'messages'>;
+
+interface StoredMessageRecord extends ChatMessageContent {
+  chatId: string;
+  order: number; // Position in StoredChat.messages, which also orders sibling branches
+}
+
+// Each entry upgrades the schema from version `index` to `index + 1`. Never edit a
+// shipped migration; append a new one instead. DB_VERSION follows the list length.
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  // v1: chat and message stores, seeded from the legacy localStorage blob.
+  (db, transaction) => {
+    db.createObjectStore(CHATS_STORE, { keyPath: 'id' });
+    const messagesStore = db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' });
+    messagesStore.createIndex(MESSAGES_BY_CHAT_INDEX, 'chatId');
+
+    for (const chat of localStorageService.loadLegacyChats()) {
+      putChat(transaction, chat);
+    }
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction was aborted.'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, transaction);
+      }
+    };
+    request.onsuccess = () => {
+      // The upgrade transaction has committed by now, so the legacy copy is no longer needed.
+      localStorageService.clearLegacyChats();
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Chat storage is open in an older version of the app in another tab. Close it and reload.'));
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const toChatRecord = ({ messages, ...chatRecord }: StoredChat): StoredChatRecord => chatRecord;
+
+const toMessageRecord = (chatId: string, message: ChatMessageContent, order: number): StoredMessageRecord => ({
+  ...message,
+  chatId,
+  order,
+});
+
+function putChat(transaction: IDBTransaction, chat: StoredChat): void {
+  transaction.objectStore(CHATS_STORE).put(toChatRecord(chat));
+  const messagesStore = transaction.objectStore(MESSAGES_STORE);
+  chat.messages.forEach((message, order) => messagesStore.put(toMessageRecord(chat.id, message, order)));
+}
+
+const deleteChatRecords = (transaction: IDBTransaction, chatId: string): void => {
+  transaction.objectStore(CHATS_STORE).delete(chatId);
+  transaction.objectStore(MESSAGES_STORE).index(MESSAGES_BY_CHAT_INDEX).openKeyCursor(IDBKeyRange.only(chatId)).onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+    if (cursor) {
+      transaction.objectStore(MESSAGES_STORE).delete(cursor.primaryKey);
+      cursor.continue();
+    }
+  };
+};
+
+export const isStorageFullError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const loadChats = async (): Promise<StoredChat[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([CHATS_STORE, MESSAGES_STORE], 'readonly');
+  const [chatRecords, messageRecords] = await Promise.all([
+    requestToPromise(transaction.objectStore(CHATS_STORE).getAll() as IDBRequest<StoredChatRecord[]>),
+    requestToPromise(transaction.objectStore(MESSAGES_STORE).getAll() as IDBRequest<StoredMessageRecord[]>),
+  ]);
+
+  const messagesByChat = new Map<string, StoredMessageRecord[]>();
+  for (const record of messageRecords) {
+    const chatMessages = messagesByChat.get(record.chatId) || [];
+    chatMessages.push(record);
+    messagesByChat.set(record.chatId, chatMessages);
+  }
+
+  return chatRecords
+    .map((chatRecord): StoredChat => ({
+      ...chatRecord,
+      messages: (messagesByChat.get(chatRecord.id) || [])
+        .sort((a, b) => a.order - b.order)
+        .map(({ chatId, order, ...message }) => message),
+    }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Writes only what differs between two snapshots of the chat list. Chats and messages
+// are treated as immutable, so an unchanged object reference means nothing to write.
+export const saveChatChanges = async (previousChats: StoredChat[], nextChats: StoredChat[]): Promise<void> => {
+  const previousById = new Map(previousChats.map(chat => [chat.id, chat]));
+  const nextIds = new Set(nextChats.map(chat => chat.id));
+  const changedChats = nextChats.filter(chat => previousById.get(chat.id) !== chat);
+  const deletedChatIds = previousChats.filter(chat => !nextIds.has(chat.id)).map(chat => chat.id);
+  if (changedChats.length === 0 && deletedChatIds.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction([CHATS_STORE, MESSAGES_STORE], 'readwrite');
+  const chatsStore = transaction.objectStore(CHATS_STORE);
+  const messagesStore = transaction.objectStore(MESSAGES_STORE);
+
+  for (const chat of changedChats) {
+    chatsStore.put(toChatRecord(chat));
+
+    const previousMessages = previousById.get(chat.id)?.messages || [];
+    chat.messages.forEach((message, order) => {
+      if (previousMessages[order] !== message) {
+        messagesStore.put(toMessageRecord(chat.id, message, order));
+      }
+    });
+    const remainingIds = new Set(chat.messages.map(message => message.id));
+    for (const message of previousMessages) {
+      if (!remainingIds.has(message.id)) {
+        messagesStore.delete(message.id);
+      }
+    }
+  }
+
+  for (const chatId of deletedChatIds) {
+    deleteChatRecords(transaction, chatId);
+  }
+
+  await transactionToPromise(transaction);
+};
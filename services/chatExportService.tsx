@@ -0,0 +1,217 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { StoredChat, ChatMessageContent, Sender } from '../types';
+import { markdownComponents } from '../components/markdownComponents';
+import { getActivePath } from './messageTreeService';
+
+export type ChatExportFormat = 'markdown' | 'html' | 'json';
+
+// Lossless format used both for single-chat JSON exports and full backups.
+const CHAT_ARCHIVE_FORMAT = 'neuramorphosis-chats';
+const CHAT_ARCHIVE_VERSION = 1;
+
+interface ChatArchive {
+  format: typeof CHAT_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO string
+  chats: StoredChat[];
+}
+
+export interface ChatImportResult {
+  chats: StoredChat[];
+  importedCount: number;
+  skippedCount: number; // Chats already present with identical content
+}
+
+const senderLabel = (message: ChatMessageContent): string =>
+  message.sender === Sender.User ? 'You' : 'NeuraMorphosis AI';
+
+const sanitizeFileName = (title: string): string =>
+  (title.replace(/[^a-z0-9\-_ ]/gi, '').trim().replace(/\s+/g, '-').toLowerCase() || 'chat').slice(0, 60);
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const downloadFile = (fileName: string, content: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
+
+// Markdown and HTML exports contain the branch currently shown; JSON keeps every branch.
+export const exportChatAsMarkdown = (chat: StoredChat): string => {
+  const lines = [`# ${chat.title}`, '', `_Exported from NeuraMorphosis Chat · started ${new Date(chat.createdAt).toLocaleString()}_`, ''];
+  for (const message of getActivePath(chat.messages, chat.activeLeafId)) {
+    lines.push(`## ${senderLabel(message)}`, '');
+    for (const attachment of message.attachments || []) {
+      lines.push(`> 📎 ${attachment.name} (${attachment.mimeType})`);
+    }
+    if (message.attachments?.length) lines.push('');
+    if (message.text.trim()) lines.push(message.text.trim(), '');
+    if (message.isStopped) lines.push('_Response stopped._', '');
+  }
+  return lines.join('\n');
+};
+
+export const exportChatAsHtml = (chat: StoredChat): string => {
+  const body = renderToStaticMarkup(
+    <main className="max-w-4xl mx-auto p-6 space-y-6">
+      <header className="border-b border-[var(--border-color)] pb-4">
+        <h1 className="text-2xl font-semibold">{chat.title}</h1>
+        <p className="text-sm text-[var(--text-secondary)]">Started {new Date(chat.createdAt).toLocaleString()}</p>
+      </header>
+      {getActivePath(chat.messages, chat.activeLeafId).map(message => (
+        <section
+          key={message.id}
+          className={message.sender === Sender.User
+            ? 'ml-auto max-w-2xl bg-[var(--primary)] text-[var(--text-on-primary)] p-3 rounded-[1.5rem] break-words'
+            : 'bg-[var(--surface-1)] border border-[var(--border-color)] p-3 rounded-xl break-words'}
+        >
+          <p className="text-xs font-semibold opacity-70 mb-2">{senderLabel(message)}</p>
+          {(message.attachments || []).map(attachment => (
+            attachment.mimeType.startsWith('image/')
+              ? <img key={attachment.id} src={`data:${attachment.mimeType};base64,${attachment.data}`} alt={attachment.name} className="max-h-64 rounded-lg mb-2" />
+              : <p key={attachment.id} className="text-xs mb-2">📎 {attachment.name}</p>
+          ))}
+          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+            {message.text}
+          </ReactMarkdown>
+        </section>
+      ))}
+    </main>
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(chat.title)}</title>
+<script src="https://cdn.tailwindcss.com"></script>
+<style>
+  :root {
+    --background: #0a0a0b;
+    --surface-1: rgba(255, 255, 255, 0.03);
+    --surface-3: rgba(255, 255, 255, 0.05);
+    --surface-active: rgba(255, 255, 255, 0.08);
+    --text-primary: #e4e4e7;
+    --text-secondary: #a1a1aa;
+    --border-color: rgba(255, 255, 255, 0.08);
+    --primary: #6366f1;
+    --primary-hover: #5558e3;
+    --text-on-primary: #FFFFFF;
+    --text-accent: #a5b4fc;
+  }
+  body { font-family: system-ui, sans-serif; background-color: var(--background); color: var(--text-primary); }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+export const exportChatsAsJson = (chats: StoredChat[]): string => {
+  const archive: ChatArchive = {
+    format: CHAT_ARCHIVE_FORMAT,
+    version: CHAT_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    chats,
+  };
+  return JSON.stringify(archive, null, 2);
+};
+
+export const downloadChatExport = (chat: StoredChat, format: ChatExportFormat): void => {
+  const baseName = sanitizeFileName(chat.title);
+  switch (format) {
+    case 'markdown':
+      downloadFile(`${baseName}.md`, exportChatAsMarkdown(chat), 'text/markdown;charset=utf-8');
+      break;
+    case 'html':
+      downloadFile(`${baseName}.html`, exportChatAsHtml(chat), 'text/html;charset=utf-8');
+      break;
+    case 'json':
+      downloadFile(`${baseName}.json`, exportChatsAsJson([chat]), 'application/json;charset=utf-8');
+      break;
+  }
+};
+
+const isValidMessage = (message: any): message is ChatMessageContent =>
+  !!message && typeof message.id === 'string' && typeof message.text === 'string' &&
+  (message.sender === Sender.User || message.sender === Sender.AI);
+
+const isValidChat = (chat: any): chat is StoredChat =>
+  !!chat && typeof chat.id === 'string' && typeof chat.title === 'string' &&
+  typeof chat.createdAt === 'string' && Array.isArray(chat.messages) && chat.messages.every(isValidMessage);
+
+export const parseChatArchive = (json: string): StoredChat[] => {
+  let archive: any;
+  try {
+    archive = JSON.parse(json);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!archive || archive.format !== CHAT_ARCHIVE_FORMAT || !Array.isArray(archive.chats)) {
+    throw new Error('The file is not a NeuraMorphosis chat export.');
+  }
+  if (typeof archive.version !== 'number' || archive.version > CHAT_ARCHIVE_VERSION) {
+    throw new Error('The file was created by a newer version of NeuraMorphosis Chat.');
+  }
+  const invalidIndex = archive.chats.findIndex((chat: any) => !isValidChat(chat));
+  if (invalidIndex !== -1) {
+    throw new Error(`Chat #${invalidIndex + 1} in the file is malformed.`);
+  }
+  return archive.chats;
+};
+
+// Gives a chat and all of its messages fresh IDs, keeping parent links and the active branch intact.
+export const reassignChatIds = (chat: StoredChat, suffix: string): StoredChat => {
+  const newMessageId = (id: string) => `${id}-${suffix}`;
+  return {
+    ...chat,
+    id: `${chat.id}-${suffix}`,
+    activeLeafId: chat.activeLeafId ? newMessageId(chat.activeLeafId) : chat.activeLeafId,
+    contextSummary: chat.contextSummary
+      ? { ...chat.contextSummary, throughMessageId: newMessageId(chat.contextSummary.throughMessageId) }
+      : chat.contextSummary,
+    messages: chat.messages.map(message => ({
+      ...message,
+      id: newMessageId(message.id),
+      parentId: message.parentId ? newMessageId(message.parentId) : message.parentId,
+    })),
+  };
+};
+
+// Imported chats never overwrite existing ones: identical copies are skipped and anything
+// whose chat or message IDs are already taken is imported under fresh IDs.
+export const mergeImportedChats = (existingChats: StoredChat[], importedChats: StoredChat[]): ChatImportResult => {
+  const existingById = new Map(existingChats.map(chat => [chat.id, chat]));
+  const takenMessageIds = new Set(existingChats.flatMap(chat => chat.messages.map(message => message.id)));
+  const importSuffix = `imported-${Date.now()}`;
+
+  const newChats: StoredChat[] = [];
+  let skippedCount = 0;
+  importedChats.forEach((importedChat, index) => {
+    const existingChat = existingById.get(importedChat.id);
+    if (existingChat && JSON.stringify(existingChat) === JSON.stringify(importedChat)) {
+      skippedCount++;
+      return;
+    }
+    const hasIdConflict = !!existingChat || importedChat.messages.some(message => takenMessageIds.has(message.id));
+    const chatToAdd = hasIdConflict ? reassignChatIds(importedChat, `${importSuffix}-${index}`) : importedChat;
+    existingById.set(chatToAdd.id, chatToAdd);
+    chatToAdd.messages.forEach(message => takenMessageIds.add(message.id));
+    newChats.push(chatToAdd);
+  });
+
+  const chats = [...existingChats, ...newChats].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return { chats, importedCount: newChats.length, skippedCount };
+};
@@ -0,0 +1,122 @@
+import { StoredChat, ChatFolder } from '../types';
+
+// Builds the sidebar sections: pinned chats first, then one section per folder,
+// then the remaining chats grouped by when they were last active. Deleted chats
+// stay in the trash (deletedAt is set) until restored or past the retention period.
+
+export type ChatDateGroup = 'today' | 'last7Days' | 'older';
+export type ChatListView = 'chats' | 'archived' | 'trash';
+
+const DATE_GROUP_LABELS: Record<ChatDateGroup, string> = {
+  today: 'Today',
+  last7Days: 'Last 7 days',
+  older: 'Older',
+};
+
+export interface ChatListSection {
+  id: string;
+  label: string;
+  folder?: ChatFolder;
+  chats: StoredChat[];
+}
+
+interface ChatListOptions {
+  view: ChatListView;
+  selectedTags: string[];
+  now?: Date;
+}
+
+const MAX_TAG_LENGTH = 32;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [1, 7, 30, 90];
+
+export const isInTrash = (chat: StoredChat): boolean => !!chat.deletedAt;
+
+export const getTrashExpiry = (chat: StoredChat, retentionDays: number): Date =>
+  new Date(new Date(chat.deletedAt || 0).getTime() + retentionDays * DAY_MS);
+
+// Returns the same array when nothing expired, so callers can skip a state update.
+export const purgeExpiredTrash = (chats: StoredChat[], retentionDays: number, now: Date = new Date()): StoredChat[] => {
+  const remaining = chats.filter(chat => !isInTrash(chat) || getTrashExpiry(chat, retentionDays) > now);
+  return remaining.length === chats.length ? chats : remaining;
+};
+
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase().slice(0, MAX_TAG_LENGTH);
+
+export const getAllTags = (chats: StoredChat[]): string[] =>
+  Array.from(new Set(chats.filter(chat => !isInTrash(chat)).flatMap(chat => chat.tags || []))).sort();
+
+// Latest message timestamp, so a chat moves to "Today" when it is continued.
+export const getLastActivity = (chat: StoredChat): number => {
+  let latest = new Date(chat.createdAt).getTime() || 0;
+  for (const message of chat.messages) {
+    const time = message.createdAt ? new Date(message.createdAt).getTime() : 0;
+    if (time > latest) latest = time;
+  }
+  return latest;
+};
+
+const getDateGroup = (timestamp: number, now: Date): ChatDateGroup => {
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+  if (timestamp >= startOfToday.getTime()) return 'today';
+  if (timestamp >= startOfToday.getTime() - 6 * DAY_MS) return 'last7Days';
+  return 'older';
+};
+
+const groupByDate = (chats: StoredChat[], now: Date): ChatListSection[] => {
+  const groups: Record<ChatDateGroup, StoredChat[]> = { today: [], last7Days: [], older: [] };
+  for (const chat of chats) {
+    groups[getDateGroup(getLastActivity(chat), now)].push(chat);
+  }
+  return (Object.keys(groups) as ChatDateGroup[])
+    .filter(group => groups[group].length > 0)
+    .map(group => ({ id: group, label: DATE_GROUP_LABELS[group], chats: groups[group] }));
+};
+
+export const buildChatListSections = (
+  chats: StoredChat[],
+  folders: ChatFolder[],
+  { view, selectedTags, now = new Date() }: ChatListOptions
+): ChatListSection[] => {
+  if (view === 'trash') {
+    const trashedChats = chats
+      .filter(isInTrash)
+      .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime());
+    return trashedChats.length > 0 ? [{ id: 'trash', label: 'Trash', chats: trashedChats }] : [];
+  }
+
+  const visibleChats = chats
+    .filter(chat => !isInTrash(chat) && !!chat.isArchived === (view === 'archived'))
+    .filter(chat => selectedTags.every(tag => chat.tags?.includes(tag)))
+    .map(chat => ({ chat, lastActivity: getLastActivity(chat) }))
+    .sort((a, b) => b.lastActivity - a.lastActivity)
+    .map(({ chat }) => chat);
+
+  // The archive is a flat history; pins and folders only organize the active list.
+  if (view === 'archived') {
+    return groupByDate(visibleChats, now);
+  }
+
+  const folderIds = new Set(folders.map(folder => folder.id));
+  const pinnedChats = visibleChats.filter(chat => chat.isPinned);
+  const unpinnedChats = visibleChats.filter(chat => !chat.isPinned);
+  const isFiltering = selectedTags.length > 0;
+
+  const sections: ChatListSection[] = [];
+  if (pinnedChats.length > 0) {
+    sections.push({ id: 'pinned', label: 'Pinned', chats: pinnedChats });
+  }
+  for (const folder of folders) {
+    const folderChats = unpinnedChats.filter(chat => chat.folderId === folder.id);
+    // Empty folders stay visible so chats can be moved into them, unless a filter is active.
+    if (folderChats.length > 0 || !isFiltering) {
+      sections.push({ id: `folder-${folder.id}`, label: folder.name, folder, chats: folderChats });
+    }
+  }
+  sections.push(...groupByDate(unpinnedChats.filter(chat => !chat.folderId || !folderIds.has(chat.folderId)), now));
+  return sections;
+};
@@ -0,0 +1,131 @@
+import { ChatMessageContent, ContextSummary, Sender } from '../types';
+
+// Decides how much of a conversation is sent to the model. Once the history gets
+// close to the context limit, older turns are folded into a rolling summary that is
+// sent in their place; the messages themselves stay in the chat untouched.
+
+export const COMPACTION_THRESHOLD = 0.8; // Share of the limit at which older turns get summarized
+const RECENT_CONTEXT_SHARE = 0.3; // Share of the limit kept verbatim after compacting
+const MIN_RECENT_MESSAGES = 2;
+
+// Sending a million tokens on every turn is slow and costly, so by default the history
+// is capped well below the model's window. 0 means "use the model's full window".
+export const DEFAULT_CONTEXT_TOKEN_LIMIT = 128_000;
+export const CONTEXT_TOKEN_LIMIT_OPTIONS = [0, 32_000, 64_000, 128_000, 256_000];
+
+export const getContextLimit = (modelWindow: number, userLimit: number): number =>
+  userLimit > 0 ? Math.min(modelWindow, userLimit) : modelWindow;
+
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258; // Gemini's flat rate for an image up to 384px; larger ones are tiled
+const PDF_TOKENS_PER_KB = 3; // Very rough: about 258 tokens per page of a typical PDF
+const SYSTEM_INSTRUCTION_TOKENS = 100;
+
+export const estimateTextTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const estimateMessageTokens = (message: ChatMessageContent): number => {
+  let tokens = estimateTextTokens(message.text);
+  for (const attachment of message.attachments || []) {
+    if (attachment.mimeType.startsWith('image/')) {
+      tokens += IMAGE_TOKENS;
+    } else if (attachment.mimeType === 'application/pdf') {
+      tokens += Math.ceil(attachment.size / 1024) * PDF_TOKENS_PER_KB;
+    } else {
+      tokens += Math.ceil(attachment.size / CHARS_PER_TOKEN);
+    }
+  }
+  return tokens;
+};
+
+// Index in the path of the last message covered by the summary, or -1 when the
+// summary does not apply (no summary, or it was made on another branch).
+const getSummaryIndex = (path: ChatMessageContent[], summary: ContextSummary | undefined): number =>
+  summary ? path.findIndex(message => message.id === summary.throughMessageId) : -1;
+
+export interface ContextToSend {
+  summaryText: string | null;
+  messages: ChatMessageContent[];
+}
+
+export const getContextToSend = (path: ChatMessageContent[], summary: ContextSummary | undefined): ContextToSend => {
+  const summaryIndex = getSummaryIndex(path, summary);
+  if (summaryIndex === -1) return { summaryText: null, messages: path };
+  return { summaryText: summary!.text, messages: path.slice(summaryIndex + 1) };
+};
+
+// Prefers the model's own count from the latest response (its prompt plus its reply
+// are exactly the history up to there) and only estimates the messages after it.
+export const estimateContextTokens = (path: ChatMessageContent[], summary: ContextSummary | undefined): number => {
+  const { summaryText, messages } = getContextToSend(path, summary);
+  let calibratedIndex = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].usage) {
+      calibratedIndex = i;
+      break;
+    }
+  }
+  // A count taken before the summary existed still includes the summarized turns.
+  const usage = calibratedIndex >= 0 ? messages[calibratedIndex].usage! : null;
+  const isCalibrationCurrent = usage && (!summary || (messages[calibratedIndex].createdAt || '') > summary.createdAt);
+
+  if (usage && isCalibrationCurrent) {
+    return usage.promptTokens + usage.outputTokens
+      + messages.slice(calibratedIndex + 1).reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+  }
+  return SYSTEM_INSTRUCTION_TOKENS
+    + (summaryText ? estimateTextTokens(summaryText) : 0)
+    + messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+};
+
+export interface CompactionPlan {
+  messagesToSummarize: ChatMessageContent[]; // Not yet covered by the existing summary
+  throughMessageId: string;
+}
+
+// Returns null while the context fits. Otherwise picks the oldest turns to fold into the
+// summary, keeping roughly RECENT_CONTEXT_SHARE of the limit verbatim. The cut is placed
+// after an AI message so the verbatim history still starts with a user turn.
+export const planCompaction = (
+  path: ChatMessageContent[],
+  summary: ContextSummary | undefined,
+  contextLimit: number
+): CompactionPlan | null => {
+  if (estimateContextTokens(path, summary) < contextLimit * COMPACTION_THRESHOLD) return null;
+
+  const { messages } = getContextToSend(path, summary);
+  const recentBudget = contextLimit * RECENT_CONTEXT_SHARE;
+  let recentTokens = 0;
+  let keepFrom = messages.length;
+  while (keepFrom > 0) {
+    const tokens = estimateMessageTokens(messages[keepFrom - 1]);
+    if (messages.length - keepFrom >= MIN_RECENT_MESSAGES && recentTokens + tokens > recentBudget) break;
+    recentTokens += tokens;
+    keepFrom--;
+  }
+
+  let cutIndex = Math.min(keepFrom, messages.length - MIN_RECENT_MESSAGES) - 1;
+  while (cutIndex >= 0 && messages[cutIndex].sender !== Sender.AI) {
+    cutIndex--;
+  }
+  if (cutIndex < 0) return null; // A single huge turn; nothing older to summarize
+
+  return {
+    messagesToSummarize: messages.slice(0, cutIndex + 1),
+    throughMessageId: messages[cutIndex].id,
+  };
+};
+
+// Drops the oldest turns until the estimate fits. Only used when compacting fails, so a
+// long chat still gets an answer instead of an error from the model.
+export const trimToLimit = (messages: ChatMessageContent[], contextLimit: number): ChatMessageContent[] => {
+  let total = SYSTEM_INSTRUCTION_TOKENS + messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+  let start = 0;
+  while (total > contextLimit && start < messages.length - 1) {
+    total -= estimateMessageTokens(messages[start]);
+    start++;
+  }
+  while (start < messages.length - 1 && messages[start].sender !== Sender.User) {
+    start++;
+  }
+  return messages.slice(start);
+};
@@ -0,0 +1,220 @@
+import { StoredChat, ChatMessageContent, Sender } from '../types';
+
+// Converts other assistants' export files into StoredChat records. Chat and message
+// IDs are derived from the source data, so importing the same file twice yields the
+// same IDs and already-imported conversations can be recognised and skipped.
+
+export type ImportSource = 'chatgpt' | 'generic';
+
+export interface ParsedImport {
+  source: ImportSource;
+  chats: StoredChat[];
+}
+
+// FNV-1a, used to give conversations without a stable source ID a deterministic one.
+const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// Accepts epoch seconds, epoch milliseconds or a date string.
+const toIsoDate = (value: unknown): string | undefined => {
+  if (typeof value === 'number' && isFinite(value)) {
+    return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+  return undefined;
+};
+
+const fallbackTitle = (messages: ChatMessageContent[]): string => {
+  const firstUserText = messages.find(msg => msg.sender === Sender.User)?.text.trim() || '';
+  const words = firstUserText.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return 'Imported Chat';
+  return words.slice(0, 6).join(' ') + (words.length > 6 ? '...' : '');
+};
+
+// --- ChatGPT (conversations.json from "Export data") ---
+
+const isChatGptExport = (data: unknown): data is any[] =>
+  Array.isArray(data) && data.length > 0 && data.every(item => item && typeof item === 'object' && item.mapping && typeof item.mapping === 'object');
+
+const extractChatGptText = (message: any): string => {
+  const content = message?.content;
+  if (!content) return '';
+  if (content.content_type === 'text' || content.content_type === 'multimodal_text') {
+    return (content.parts || []).filter((part: unknown) => typeof part === 'string').join('\n').trim();
+  }
+  if (content.content_type === 'code' && typeof content.text === 'string') {
+    return '```\n' + content.text + '\n```';
+  }
+  return '';
+};
+
+const toChatGptSender = (message: any): Sender | null => {
+  if (message?.metadata?.is_visually_hidden_from_conversation) return null;
+  switch (message?.author?.role) {
+    case 'user': return Sender.User;
+    case 'assistant': return Sender.AI;
+    default: return null; // system and tool messages are not shown in ChatGPT either
+  }
+};
+
+// ChatGPT stores each conversation as a tree, just like we do. Nodes we cannot show
+// (system prompts, tool calls) are dropped and their children re-attached to the
+// nearest kept ancestor, so alternate branches survive the import.
+const convertChatGptConversation = (conversation: any): StoredChat | null => {
+  const sourceId = conversation.conversation_id || conversation.id || hashString(JSON.stringify(Object.keys(conversation.mapping)));
+  const chatId = `chatgpt-${sourceId}`;
+  const mapping: Record<string, any> = conversation.mapping;
+
+  const messages: ChatMessageContent[] = [];
+  const keptAncestorByNode = new Map<string, string | null>();
+  const roots = Object.values(mapping).filter((node: any) => !node.parent || !mapping[node.parent]);
+  const stack: any[] = [...roots].reverse();
+
+  while (stack.length > 0) {
+    const node = stack.pop();
+    const parentKeptId = node.parent ? keptAncestorByNode.get(node.parent) ?? null : null;
+    const sender = toChatGptSender(node.message);
+    const text = sender ? extractChatGptText(node.message) : '';
+
+    if (sender && text) {
+      const messageId = `${chatId}-${node.id}`;
+      messages.push({
+        id: messageId,
+        text,
+        sender,
+        parentId: parentKeptId,
+        createdAt: toIsoDate(node.message.create_time),
+      });
+      keptAncestorByNode.set(node.id, messageId);
+    } else {
+      keptAncestorByNode.set(node.id, parentKeptId);
+    }
+
+    const children: string[] = node.children || [];
+    for (let i = children.length - 1; i >= 0; i--) {
+      if (mapping[children[i]]) stack.push(mapping[children[i]]);
+    }
+  }
+
+  if (messages.length === 0) return null;
+
+  return {
+    id: chatId,
+    title: (typeof conversation.title === 'string' && conversation.title.trim()) || fallbackTitle(messages),
+    createdAt: toIsoDate(conversation.create_time) || messages[0].createdAt || new Date().toISOString(),
+    messages,
+    activeLeafId: (conversation.current_node && keptAncestorByNode.get(conversation.current_node)) || messages[messages.length - 1].id,
+    aiMessagesSinceLastTitleUpdate: 0,
+  };
+};
+
+// --- Generic role/content JSON ---
+// Accepts a list of conversations ({ title?, createdAt?, messages: [{ role, content }] }),
+// an object with a `conversations` list, a single conversation, or a bare message list.
+
+const toGenericSender = (role: unknown): Sender | null => {
+  switch (typeof role === 'string' ? role.toLowerCase() : '') {
+    case 'user':
+    case 'human':
+      return Sender.User;
+    case 'assistant':
+    case 'model':
+    case 'ai':
+    case 'bot':
+      return Sender.AI;
+    default:
+      return null;
+  }
+};
+
+const extractGenericText = (message: any): string => {
+  const content = message.content ?? message.text ?? message.parts;
+  if (typeof content === 'string') return content.trim();
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (typeof part === 'string' ? part : typeof part?.text === 'string' ? part.text : ''))
+      .join('\n')
+      .trim();
+  }
+  return '';
+};
+
+const isGenericMessage = (item: any): boolean => !!item && typeof item === 'object' && 'role' in item;
+
+const convertGenericConversation = (conversation: any): StoredChat | null => {
+  const rawMessages: any[] = Array.isArray(conversation.messages) ? conversation.messages : [];
+  const convertible = rawMessages
+    .map(raw => ({ raw, sender: toGenericSender(raw?.role ?? raw?.author), text: raw ? extractGenericText(raw) : '' }))
+    .filter((entry): entry is { raw: any; sender: Sender; text: string } => entry.sender !== null && entry.text !== '');
+  if (convertible.length === 0) return null;
+
+  const chatId = `import-${hashString(JSON.stringify(convertible.map(({ sender, text }) => [sender, text])))}`;
+  const messages: ChatMessageContent[] = convertible.map(({ raw, sender, text }, index) => ({
+    id: `${chatId}-${index}`,
+    text,
+    sender,
+    parentId: index > 0 ? `${chatId}-${index - 1}` : null,
+    createdAt: toIsoDate(raw.createdAt ?? raw.created_at ?? raw.create_time ?? raw.timestamp),
+  }));
+
+  return {
+    id: chatId,
+    title: (typeof conversation.title === 'string' && conversation.title.trim()) || fallbackTitle(messages),
+    createdAt: toIsoDate(conversation.createdAt ?? conversation.created_at ?? conversation.create_time) || messages[0].createdAt || new Date().toISOString(),
+    messages,
+    activeLeafId: messages[messages.length - 1].id,
+    aiMessagesSinceLastTitleUpdate: 0,
+  };
+};
+
+// Identical conversations get identical IDs, so a file that repeats one would otherwise
+// yield two chats sharing chat and message IDs. The first copy is kept.
+const dropDuplicateChats = (chats: StoredChat[]): StoredChat[] => {
+  const seenIds = new Set<string>();
+  return chats.filter(chat => {
+    if (seenIds.has(chat.id)) return false;
+    seenIds.add(chat.id);
+    return true;
+  });
+};
+
+const toGenericConversations = (data: any): any[] | null => {
+  if (Array.isArray(data)) {
+    if (data.length > 0 && data.every(isGenericMessage)) return [{ messages: data }];
+    if (data.every(item => item && Array.isArray(item.messages))) return data;
+    return null;
+  }
+  if (data && Array.isArray(data.conversations)) return data.conversations;
+  if (data && Array.isArray(data.messages)) return [data];
+  return null;
+};
+
+export const parseExternalConversations = (json: string): ParsedImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (isChatGptExport(data)) {
+    const chats = data.map(convertChatGptConversation).filter((chat): chat is StoredChat => chat !== null);
+    return { source: 'chatgpt', chats: dropDuplicateChats(chats) };
+  }
+
+  const conversations = toGenericConversations(data);
+  if (!conversations) {
+    throw new Error('Unrecognised format. Upload ChatGPT\'s conversations.json or a JSON file of { role, content } messages.');
+  }
+  const chats = conversations.map(convertGenericConversation).filter((chat): chat is StoredChat => chat !== null);
+  return { source: 'generic', chats: dropDuplicateChats(chats) };
+};
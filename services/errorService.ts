@@ -0,0 +1,123 @@
+import { ErrorCategory, MessageError, ProxyErrorBody, ProxyErrorCode, RateLimitErrorBody, StreamEvent } from '../types';
+import { retryWithBackoff } from './retryService';
+
+// Failed /api/proxy requests: what went wrong, in terms the UI can explain, and whether
+// trying again might help. The proxy already retries an overloaded or unreachable
+// provider and its quota, so the app only retries failures that never reached the
+// proxy's handler: the network, or a gateway in between.
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 8000;
+
+const CATEGORY_BY_CODE: Partial<Record<ProxyErrorCode, ErrorCategory>> = {
+  'rate-limited': 'rate-limit',
+  'quota-exceeded': 'rate-limit',
+  'overloaded': 'overloaded',
+  'network': 'network',
+  'safety-blocked': 'safety',
+  'invalid-json': 'invalid-request',
+  'invalid-request': 'invalid-request',
+  'unknown-type': 'invalid-request',
+  'unknown-model': 'invalid-request',
+  'unsupported-attachment': 'invalid-request',
+  'payload-too-large': 'invalid-request',
+  'unauthorized': 'auth',
+  'provider-auth': 'auth',
+};
+
+// "45 seconds", "3 minutes", "9 hours": rounded up, so the wait is never understated.
+export const formatRetryDelay = (seconds: number): string => {
+  const [amount, unit] = seconds < 60 ? [Math.max(1, Math.ceil(seconds)), 'second']
+    : seconds < 3600 ? [Math.ceil(seconds / 60), 'minute']
+    : [Math.ceil(seconds / 3600), 'hour'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+};
+
+// A request /api/proxy answered with an error status, or an 'error' event in its stream.
+// `code` is missing when the response didn't come from the proxy itself, e.g. a gateway timeout.
+export class ProxyError extends Error {
+  readonly status: number;
+  readonly code?: ProxyErrorCode;
+
+  constructor(message: string, status: number, code?: ProxyErrorCode) {
+    super(message);
+    this.name = 'ProxyError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// The proxy turned the request away because one of its own rate limits was reached.
+export class RateLimitError extends ProxyError {
+  readonly limit: RateLimitErrorBody['limit'];
+  readonly retryAfterSeconds: number;
+
+  constructor(limit: RateLimitErrorBody['limit'], retryAfterSeconds: number) {
+    super(limit === 'tokens'
+      ? `Daily usage quota reached. Retry in ${formatRetryDelay(retryAfterSeconds)}.`
+      : `Too many requests. Retry in ${formatRetryDelay(retryAfterSeconds)}.`, 429, 'rate-limited');
+    this.name = 'RateLimitError';
+    this.limit = limit;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// Turns a failed /api/proxy response's JSON ProxyErrorBody into an Error to throw.
+export const readProxyError = async (response: Response): Promise<ProxyError> => {
+  let errorJson: Partial<ProxyErrorBody & RateLimitErrorBody> | null = null;
+  try {
+    errorJson = await response.json();
+  } catch (e) {
+    // response was not json
+  }
+  // The provider's quota is also a 429, but without a countdown of our own.
+  if (response.status === 429 && (!errorJson?.code || errorJson.code === 'rate-limited')) {
+    const retryAfterSeconds = Number(errorJson?.retryAfterSeconds ?? response.headers.get('Retry-After')) || 60;
+    return new RateLimitError(errorJson?.limit === 'tokens' ? 'tokens' : 'requests', retryAfterSeconds);
+  }
+  return new ProxyError(errorJson?.error || `API request failed with status ${response.status}`, response.status, errorJson?.code);
+};
+
+export const errorFromStreamEvent = (event: Extract<StreamEvent, { type: 'error' }>): ProxyError =>
+  new ProxyError(event.message, 200, event.code);
+
+const isAbortError = (error: any) => error?.name === 'AbortError';
+
+// fetch() rejects with a TypeError when the request never got a response.
+const isNetworkError = (error: any) => error instanceof TypeError && !isAbortError(error);
+
+export const classifyError = (error: any): MessageError => {
+  const message: string = error?.message || 'Unknown error';
+  if (error instanceof ProxyError) {
+    const category = (error.code && CATEGORY_BY_CODE[error.code])
+      || (error.status === 502 || error.status === 504 ? 'network' : error.status === 503 ? 'overloaded' : 'unknown');
+    return { category, message };
+  }
+  if (isNetworkError(error)) {
+    return { category: 'network', message: 'Could not reach the server. Check your connection.' };
+  }
+  return { category: 'unknown', message };
+};
+
+// An error with a code came from the proxy, which has retried it already if that could
+// help; retrying it here too would multiply the calls to the provider.
+export const isTransientError = (error: any): boolean => {
+  if (error instanceof ProxyError) {
+    return !error.code && [502, 503, 504].includes(error.status);
+  }
+  return isNetworkError(error);
+};
+
+// Runs `operation` again after a transient failure, up to MAX_ATTEMPTS times in all.
+// Only for requests that haven't shown anything yet; a started stream is never replayed.
+export const withRetry = <T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+  retryWithBackoff(operation, {
+    maxAttempts: MAX_ATTEMPTS,
+    baseDelayMs: BASE_DELAY_MS,
+    maxDelayMs: MAX_DELAY_MS,
+    isTransient: isTransientError,
+    signal,
+    onRetry: (error, delayMs, attempt) =>
+      console.warn(`Request failed, retrying in ${delayMs}ms (attempt ${attempt} of ${MAX_ATTEMPTS}):`, error),
+  });
@@ -1,25 +1,21 @@
-import { GenerateContentResponse, Part } from "@google/genai";
-import { ChatMessageHistoryItem, ChatMessageContent, Sender } from '../types';
-
-export const AVAILABLE_CHAT_MODELS = [
-  'gemini-2.5-flash',
-  'gemini-2.5-pro',
-  'gemini-2.5-flash-lite',
-];
-
-export const MODEL_FRIENDLY_NAMES: Record<string, string> = {
-  'gemini-2.5-flash': 'Flash (Fast & Efficient)',
-  'gemini-2.5-pro': 'Pro (Advanced & Powerful)',
-  'gemini-2.5-flash-lite': 'Flash Lite (Ultra Fast)',
-};
-
-export const getFriendlyModelName = (modelId: string): string => MODEL_FRIENDLY_NAMES[modelId] || modelId;
-
-export const DEFAULT_CHAT_MODEL = 'gemini-2.5-flash';
-
-export const THINKING_CONFIG_SUPPORTED_MODELS = [
-  'gemini-2.5-flash',
-];
+import { ChatMessageHistoryItem, ChatMessageContent, Sender, StreamEvent, GenerationParams, ChatProxyPayload, ProxyRequest, TextProxyResponse } from '../types';
+import { fetchProxyStream, readStreamEvents } from './streamService';
+import { readProxyError, withRetry } from './errorService';
+import { fetchProxy } from './authService';
+import { getFriendlyModelName, isThinkingSupported } from './modelRegistryService';
+
+// Titles, translations and context summaries come back whole rather than streamed.
+const requestProxyText = (body: Extract<ProxyRequest, { type: 'generate-title' | 'translate' | 'compact' }>): Promise<TextProxyResponse> => withRetry(async () => {
+  const apiResponse = await fetchProxy('/api/proxy', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!apiResponse.ok) {
+    throw await readProxyError(apiResponse);
+  }
+  return apiResponse.json();
+});
 
 const mapAppMessagesToGeminiHistoryForTitle = (messages: ChatMessageContent[], initialWelcomeTextBase: string): ChatMessageHistoryItem[] => {
   return messages
@@ -77,21 +73,7 @@ ${conversationContext}
 Title:`;
 
   try {
-    const apiResponse = await fetch('/api/proxy', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        type: 'generate-title',
-        payload: { titlePrompt },
-      }),
-    });
-    
-    if (!apiResponse.ok) {
-        const errorData = await apiResponse.json();
-        throw new Error(errorData.error || `API Error: ${apiResponse.statusText}`);
-    }
-
-    const { text: responseText } = await apiResponse.json();
+    const { text: responseText } = await requestProxyText({ type: 'generate-title', payload: { titlePrompt } });
 
     if (typeof responseText === 'string' && responseText.trim() !== "") {
       let cleanTitle = responseText.trim().replace(/^["']|["']$/g, '');
@@ -117,64 +99,99 @@ Title:`;
   }
 };
 
+export const translateText = async (text: string, targetLanguageName: string): Promise<string> => {
+  const translationPrompt = `Translate the following text into ${targetLanguageName}. Preserve all Markdown formatting, code blocks, links and line breaks exactly. Do not translate the contents of code blocks. Do not add any notes, explanations or prefixes like "Translation:". Just provide the translated text itself.
+
+Text:
+${text}`;
+
+  const { text: translatedText } = await requestProxyText({ type: 'translate', payload: { translationPrompt } });
+  if (typeof translatedText !== 'string' || translatedText.trim() === "") {
+    throw new Error("Translation returned an empty response.");
+  }
+  return translatedText.trim();
+};
+
+// Folds older turns into the running summary of a conversation. The previous summary
+// is included so each compaction builds on the last instead of starting over.
+export const summarizeConversation = async (previousSummary: string | null, messages: ChatMessageContent[]): Promise<string> => {
+  const transcript = messages.map(msg => {
+    const attachmentNote = msg.attachments?.length
+      ? `\n[Attached: ${msg.attachments.map(attachment => attachment.name).join(', ')}]`
+      : '';
+    return `${msg.sender === Sender.User ? 'User' : 'Assistant'}: ${msg.text}${attachmentNote}`;
+  }).join('\n\n');
+
+  const compactionPrompt = `You are maintaining the memory of a long conversation between a user and an AI assistant. Write a summary that lets the assistant continue the conversation without the original messages. Keep every fact, decision, preference, name, number and open question; keep code, commands and exact wording when they are likely to be referred to again. Drop greetings and repetition. Write in the language of the conversation, in plain prose or short lists, without any preamble.
+${previousSummary ? `
+Summary of the conversation so far:
+${previousSummary}
+
+Extend it with the messages that follow.` : ''}
+
+Messages:
+${transcript}
+
+Summary:`;
+
+  const { text: summaryText } = await requestProxyText({ type: 'compact', payload: { compactionPrompt } });
+  if (typeof summaryText !== 'string' || summaryText.trim() === "") {
+    throw new Error("Summarization returned an empty response.");
+  }
+  return summaryText.trim();
+};
+
+export const getDefaultSystemInstruction = (model: string): string => `You are NeuraMorphosis AI, a helpful and independent text-based chat assistant. You are currently operating as the '${getFriendlyModelName(model)}' model configuration.
+Provide helpful text-based responses.
+If asked about your capabilities, mention you are a text-based assistant.
+Respond in the language of the user's input if it is clear, otherwise default to English.
+`;
+
+export interface ChatStreamOptions {
+    thinkingBudget?: number;
+    signal?: AbortSignal;
+    systemInstruction?: string | null; // Persona or per-chat instructions; the built-in prompt when empty
+    contextSummary?: string | null; // Rolling summary of turns left out of `history`
+    generationParams?: GenerationParams;
+}
+
 export const sendMessageToChatStream = async function* (
-    message: string | Part[],
+    message: string | ChatMessageHistoryItem['parts'],
     history: ChatMessageHistoryItem[],
     model: string,
-    thinkingBudget: number
-): AsyncGenerator<GenerateContentResponse> {
+    { thinkingBudget, signal, systemInstruction, contextSummary, generationParams }: ChatStreamOptions = {}
+): AsyncGenerator<StreamEvent> {
     
-    const friendlyModelName = getFriendlyModelName(model);
-    const chatConfig: { systemInstruction: string; thinkingConfig?: { thinkingBudget: number } } = { 
-        systemInstruction: `You are NeuraMorphosis AI, a helpful and independent text-based chat assistant. You are currently operating as the '${friendlyModelName}' model configuration.
-Provide helpful text-based responses.
-If asked about your capabilities, mention you are a text-based assistant.
-Respond in the language of the user's input if it is clear, otherwise default to English.
-`,
+    const chatConfig: NonNullable<ChatProxyPayload['config']> = { 
+        systemInstruction: systemInstruction || getDefaultSystemInstruction(model),
     };
 
-    if (model === 'gemini-2.5-flash' && thinkingBudget !== undefined) {
+    if (contextSummary) {
+        chatConfig.systemInstruction += `
+The earlier part of this conversation has been condensed to save space. Treat this summary as if you had read those messages yourself:
+${contextSummary}
+`;
+    }
+
+    if (isThinkingSupported(model) && thinkingBudget !== undefined) {
         chatConfig.thinkingConfig = { 
           thinkingBudget: thinkingBudget,
+          includeThoughts: thinkingBudget !== 0, // Thought summaries are streamed as thought-delta events
         };
     }
     
-    const partsForMessage: Part[] = typeof message === 'string' ? [{ text: message }] : message;
-
-    const response = await fetch('/api/proxy', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-            type: 'chat',
-            payload: {
-                history,
-                message: { parts: partsForMessage },
-                model,
-                config: chatConfig,
-            }
-        }),
-    });
-    
-    if (!response.ok || !response.body) {
-        let errorText = `API request failed with status ${response.status}`;
-        try {
-            const errorJson = await response.json();
-            errorText = errorJson.error || errorText;
-        } catch (e) {
-            // response was not json
+    const partsForMessage: ChatMessageHistoryItem['parts'] = typeof message === 'string' ? [{ text: message }] : message;
+
+    const response = await fetchProxyStream({
+        type: 'chat',
+        payload: {
+            history,
+            message: { parts: partsForMessage },
+            model,
+            config: chatConfig,
+            generationParams,
         }
-        console.error("Proxy chat error:", errorText);
-        throw new Error(errorText);
-    }
-    
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    
-    while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        // The original function yields GenerateContentResponse objects.
-        // We simulate that here since the client only uses `chunk.text`.
-        yield { text: decoder.decode(value) } as GenerateContentResponse;
-    }
+    }, signal);
+
+    yield* readStreamEvents(response);
 };
@@ -0,0 +1,47 @@
+import { GenerationParams } from '../types';
+
+// Client-side view of the sampling settings. The input ranges are the widest any offered
+// model accepts; the proxy narrows them per model.
+
+export type NumericGenerationParam = Exclude<keyof GenerationParams, 'stopSequences'>;
+
+export interface GenerationParamField {
+  key: NumericGenerationParam;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  description: string;
+}
+
+export const GENERATION_PARAM_FIELDS: GenerationParamField[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1, description: 'Higher values give more varied, creative replies; lower values more focused ones.' },
+  { key: 'topP', label: 'Top-p', min: 0, max: 1, step: 0.05, description: 'Samples only from the most likely tokens whose probabilities add up to this value.' },
+  { key: 'topK', label: 'Top-k', min: 1, max: 64, step: 1, description: 'Samples only from this many of the most likely tokens.' },
+  { key: 'maxOutputTokens', label: 'Max output tokens', min: 1, max: 65536, step: 1, description: 'Replies are cut off at this length. Thinking counts towards it on models that think.' },
+  { key: 'candidateCount', label: 'Candidates', min: 1, max: 8, step: 1, description: 'Generates several replies at once; the extras appear as alternatives you can page through.' },
+];
+
+export const MAX_STOP_SEQUENCES = 5;
+
+// Chat overrides win field by field; cleared fields are removed, never set to undefined.
+export const mergeGenerationParams = (globalParams: GenerationParams, chatParams: GenerationParams | undefined): GenerationParams =>
+  ({ ...globalParams, ...chatParams });
+
+export const hasGenerationParams = (params: GenerationParams | undefined): boolean =>
+  !!params && Object.keys(params).length > 0;
+
+export const withGenerationParam = <K extends keyof GenerationParams>(
+  params: GenerationParams,
+  key: K,
+  value: GenerationParams[K] | undefined
+): GenerationParams => {
+  const { [key]: _removed, ...rest } = params;
+  return value === undefined ? rest : { ...rest, [key]: value };
+};
+
+// One stop sequence per line; blank lines are ignored.
+export const parseStopSequences = (text: string): string[] | undefined => {
+  const sequences = text.split('\n').filter(line => line !== '').slice(0, MAX_STOP_SEQUENCES);
+  return sequences.length > 0 ? sequences : undefined;
+};
@@ -1,5 +1,5 @@
 
-import { StoredChat, BaseTheme, AccentTheme } from '../types';
+import { StoredChat, BaseTheme, AccentTheme, ChatFolder, ModelPrice, Persona, GenerationParams, ModelRegistry, ThinkingLevel } from '../types';
 
 const ALL_CHATS_KEY = 'neuramorphosis_allChats';
 const ACTIVE_CHAT_ID_KEY = 'neuramorphosis_activeChatId';
@@ -7,23 +7,36 @@ const CUSTOM_CSS_KEY = 'neuramorphosis_customCSS';
 const BASE_THEME_KEY = 'neuramorphosis_baseTheme';
 const ACCENT_THEME_KEY = 'neuramorphosis_accentTheme';
 const TARGET_LANGUAGE_KEY = 'neuramorphosis_targetLanguage';
+const CHAT_FOLDERS_KEY = 'neuramorphosis_chatFolders';
+const TRASH_RETENTION_DAYS_KEY = 'neuramorphosis_trashRetentionDays';
+const MODEL_PRICES_KEY = 'neuramorphosis_modelPrices';
+const CONTEXT_TOKEN_LIMIT_KEY = 'neuramorphosis_contextTokenLimit';
+const PERSONAS_KEY = 'neuramorphosis_personas';
+const NEW_CHAT_PERSONA_ID_KEY = 'neuramorphosis_newChatPersonaId';
+const DEFAULT_CHAT_MODEL_KEY = 'neuramorphosis_defaultChatModel';
+const GENERATION_PARAMS_KEY = 'neuramorphosis_generationParams';
+const MODEL_REGISTRY_KEY = 'neuramorphosis_modelRegistry';
+const THINKING_LEVEL_KEY = 'neuramorphosis_thinkingLevel';
+const AUTH_TOKEN_KEY = 'neuramorphosis_authToken';
 
 
-export const saveChats = (chats: StoredChat[]): void => {
+// Chats used to be stored here as one JSON blob. They now live in IndexedDB
+// (see chatDatabaseService); these are only used to migrate that blob once.
+export const loadLegacyChats = (): StoredChat[] => {
   try {
-    localStorage.setItem(ALL_CHATS_KEY, JSON.stringify(chats));
+    const chatsJson = localStorage.getItem(ALL_CHATS_KEY);
+    return chatsJson ? JSON.parse(chatsJson) : [];
   } catch (error) {
-    console.error("Error saving chats to localStorage:", error);
+    console.error("Error loading legacy chats from localStorage:", error);
+    return [];
   }
 };
 
-export const loadChats = (): StoredChat[] => {
+export const clearLegacyChats = (): void => {
   try {
-    const chatsJson = localStorage.getItem(ALL_CHATS_KEY);
-    return chatsJson ? JSON.parse(chatsJson) : [];
+    localStorage.removeItem(ALL_CHATS_KEY);
   } catch (error) {
-    console.error("Error loading chats from localStorage:", error);
-    return [];
+    console.error("Error clearing legacy chats from localStorage:", error);
   }
 };
 
@@ -116,3 +129,208 @@ export const loadTargetLanguage = (): string | null => {
     return null;
   }
 };
+
+export const saveChatFolders = (folders: ChatFolder[]): void => {
+  try {
+    localStorage.setItem(CHAT_FOLDERS_KEY, JSON.stringify(folders));
+  } catch (error) {
+    console.error("Error saving chat folders to localStorage:", error);
+  }
+};
+
+export const loadChatFolders = (): ChatFolder[] => {
+  try {
+    const foldersJson = localStorage.getItem(CHAT_FOLDERS_KEY);
+    return foldersJson ? JSON.parse(foldersJson) : [];
+  } catch (error) {
+    console.error("Error loading chat folders from localStorage:", error);
+    return [];
+  }
+};
+
+export const saveTrashRetentionDays = (days: number): void => {
+  try {
+    localStorage.setItem(TRASH_RETENTION_DAYS_KEY, String(days));
+  } catch (error) {
+    console.error("Error saving trash retention to localStorage:", error);
+  }
+};
+
+export const loadTrashRetentionDays = (): number | null => {
+  try {
+    const days = parseInt(localStorage.getItem(TRASH_RETENTION_DAYS_KEY) || '', 10);
+    return isNaN(days) ? null : days;
+  } catch (error) {
+    console.error("Error loading trash retention from localStorage:", error);
+    return null;
+  }
+};
+
+export const saveModelPrices = (prices: Record<string, ModelPrice>): void => {
+  try {
+    localStorage.setItem(MODEL_PRICES_KEY, JSON.stringify(prices));
+  } catch (error) {
+    console.error("Error saving model prices to localStorage:", error);
+  }
+};
+
+export const loadModelPrices = (): Record<string, ModelPrice> | null => {
+  try {
+    const pricesJson = localStorage.getItem(MODEL_PRICES_KEY);
+    return pricesJson ? JSON.parse(pricesJson) : null;
+  } catch (error) {
+    console.error("Error loading model prices from localStorage:", error);
+    return null;
+  }
+};
+
+export const saveContextTokenLimit = (limit: number): void => {
+  try {
+    localStorage.setItem(CONTEXT_TOKEN_LIMIT_KEY, String(limit));
+  } catch (error) {
+    console.error("Error saving context token limit to localStorage:", error);
+  }
+};
+
+export const loadContextTokenLimit = (): number | null => {
+  try {
+    const limit = parseInt(localStorage.getItem(CONTEXT_TOKEN_LIMIT_KEY) || '', 10);
+    return isNaN(limit) ? null : limit;
+  } catch (error) {
+    console.error("Error loading context token limit from localStorage:", error);
+    return null;
+  }
+};
+
+export const savePersonas = (personas: Persona[]): void => {
+  try {
+    localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas));
+  } catch (error) {
+    console.error("Error saving personas to localStorage:", error);
+  }
+};
+
+export const loadPersonas = (): Persona[] => {
+  try {
+    const personasJson = localStorage.getItem(PERSONAS_KEY);
+    return personasJson ? JSON.parse(personasJson) : [];
+  } catch (error) {
+    console.error("Error loading personas from localStorage:", error);
+    return [];
+  }
+};
+
+export const saveNewChatPersonaId = (id: string | null): void => {
+  try {
+    if (id) {
+      localStorage.setItem(NEW_CHAT_PERSONA_ID_KEY, id);
+    } else {
+      localStorage.removeItem(NEW_CHAT_PERSONA_ID_KEY);
+    }
+  } catch (error) {
+    console.error("Error saving new chat persona to localStorage:", error);
+  }
+};
+
+export const loadNewChatPersonaId = (): string | null => {
+  try {
+    return localStorage.getItem(NEW_CHAT_PERSONA_ID_KEY);
+  } catch (error) {
+    console.error("Error loading new chat persona from localStorage:", error);
+    return null;
+  }
+};
+
+export const saveDefaultChatModel = (model: string): void => {
+  try {
+    localStorage.setItem(DEFAULT_CHAT_MODEL_KEY, model);
+  } catch (error) {
+    console.error("Error saving default chat model to localStorage:", error);
+  }
+};
+
+export const loadDefaultChatModel = (): string | null => {
+  try {
+    return localStorage.getItem(DEFAULT_CHAT_MODEL_KEY);
+  } catch (error) {
+    console.error("Error loading default chat model from localStorage:", error);
+    return null;
+  }
+};
+
+const THINKING_LEVELS: ThinkingLevel[] = ['off', 'low', 'medium', 'high', 'max', 'dynamic'];
+
+export const saveThinkingLevel = (level: ThinkingLevel): void => {
+  try {
+    localStorage.setItem(THINKING_LEVEL_KEY, level);
+  } catch (error) {
+    console.error("Error saving thinking level to localStorage:", error);
+  }
+};
+
+export const loadThinkingLevel = (): ThinkingLevel | null => {
+  try {
+    const level = localStorage.getItem(THINKING_LEVEL_KEY);
+    return THINKING_LEVELS.includes(level as ThinkingLevel) ? level as ThinkingLevel : null;
+  } catch (error) {
+    console.error("Error loading thinking level from localStorage:", error);
+    return null;
+  }
+};
+
+export const saveGenerationParams = (params: GenerationParams): void => {
+  try {
+    localStorage.setItem(GENERATION_PARAMS_KEY, JSON.stringify(params));
+  } catch (error) {
+    console.error("Error saving generation settings to localStorage:", error);
+  }
+};
+
+export const loadGenerationParams = (): GenerationParams => {
+  try {
+    const paramsJson = localStorage.getItem(GENERATION_PARAMS_KEY);
+    return paramsJson ? JSON.parse(paramsJson) : {};
+  } catch (error) {
+    console.error("Error loading generation settings from localStorage:", error);
+    return {};
+  }
+};
+
+export const saveModelRegistry = (registry: ModelRegistry): void => {
+  try {
+    localStorage.setItem(MODEL_REGISTRY_KEY, JSON.stringify(registry));
+  } catch (error) {
+    console.error("Error saving model list to localStorage:", error);
+  }
+};
+
+export const loadModelRegistry = (): ModelRegistry | null => {
+  try {
+    const registryJson = localStorage.getItem(MODEL_REGISTRY_KEY);
+    return registryJson ? JSON.parse(registryJson) : null;
+  } catch (error) {
+    console.error("Error loading model list from localStorage:", error);
+    return null;
+  }
+};
+
+export const saveAuthToken = (token: string | null): void => {
+  try {
+    if (token) {
+      localStorage.setItem(AUTH_TOKEN_KEY, token);
+    } else {
+      localStorage.removeItem(AUTH_TOKEN_KEY);
+    }
+  } catch (error) {
+    console.error("Error saving access token to localStorage:", error);
+  }
+};
+
+export const loadAuthToken = (): string | null => {
+  try {
+    return localStorage.getItem(AUTH_TOKEN_KEY);
+  } catch (error) {
+    console.error("Error loading access token from localStorage:", error);
+    return null;
+  }
+};
@@ -0,0 +1,50 @@
+import { ChatMessageContent, StoredChat } from '../types';
+
+// Chat messages are stored as a flat list of tree nodes linked by `parentId`.
+// Regenerating a response or editing a user message adds a sibling node, and the
+// conversation shown to the user (and sent to the model) is the path from the
+// root to the chat's active leaf.
+
+// Chats saved before branching existed have no parent links; they were a single linear thread.
+export const ensureMessageTree = (chat: StoredChat): StoredChat => {
+  if (chat.messages.every(msg => msg.parentId !== undefined)) {
+    return chat;
+  }
+  const messages = chat.messages.map((msg, index) => ({
+    ...msg,
+    parentId: msg.parentId !== undefined ? msg.parentId : (index > 0 ? chat.messages[index - 1].id : null),
+  }));
+  return { ...chat, messages };
+};
+
+// Follows the most recently created child at each step, starting from the given message.
+export const findLatestLeafId = (messages: ChatMessageContent[], fromId: string): string => {
+  let currentId = fromId;
+  while (true) {
+    const children = messages.filter(msg => msg.parentId === currentId);
+    if (children.length === 0) return currentId;
+    currentId = children[children.length - 1].id;
+  }
+};
+
+export const getActivePath = (messages: ChatMessageContent[], activeLeafId: string | null | undefined): ChatMessageContent[] => {
+  if (messages.length === 0) return [];
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  let current = activeLeafId ? byId.get(activeLeafId) : undefined;
+  if (!current) {
+    current = byId.get(findLatestLeafId(messages, messages[0].id));
+  }
+
+  const path: ChatMessageContent[] = [];
+  const visited = new Set<string>();
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+// Alternate versions of a message: same parent and same sender, in creation order.
+export const getSiblings = (messages: ChatMessageContent[], message: ChatMessageContent): ChatMessageContent[] =>
+  messages.filter(msg => (msg.parentId ?? null) === (message.parentId ?? null) && msg.sender === message.sender);
@@ -0,0 +1,65 @@
+import { ModelInfo, ModelRegistry } from '../types';
+
+// Built-in model catalog. The proxy serves it (plus any server-side additions) from
+// GET /api/proxy?resource=models; the client uses it only until that response arrives.
+// Data only, as it is bundled into both the browser app and the edge function.
+
+const GEMINI_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'text/html',
+  'application/json',
+];
+
+const GEMINI_2_5_PARAM_LIMITS = { maxTemperature: 2, maxTopK: 64, maxCandidateCount: 8 };
+
+// Prices are the standard paid-tier list prices at the time of writing; prompts over
+// 200k tokens cost more on Pro.
+const BUILT_IN_MODELS: ModelInfo[] = [
+  {
+    id: 'gemini-2.5-flash',
+    name: 'Flash (Fast & Efficient)',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    thinking: { minBudget: 0, maxBudget: 24_576 },
+    attachmentMimeTypes: GEMINI_ATTACHMENT_TYPES,
+    pricing: { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+    defaultParams: {},
+    paramLimits: GEMINI_2_5_PARAM_LIMITS,
+  },
+  {
+    id: 'gemini-2.5-pro',
+    name: 'Pro (Advanced & Powerful)',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    thinking: { minBudget: 128, maxBudget: 32_768 },
+    attachmentMimeTypes: GEMINI_ATTACHMENT_TYPES,
+    pricing: { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+    defaultParams: {},
+    paramLimits: GEMINI_2_5_PARAM_LIMITS,
+  },
+  {
+    id: 'gemini-2.5-flash-lite',
+    name: 'Flash Lite (Ultra Fast)',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    thinking: { minBudget: 0, maxBudget: 24_576 },
+    attachmentMimeTypes: GEMINI_ATTACHMENT_TYPES,
+    pricing: { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+    defaultParams: {},
+    paramLimits: GEMINI_2_5_PARAM_LIMITS,
+  },
+];
+
+export const BUILT_IN_MODEL_REGISTRY: ModelRegistry = {
+  models: BUILT_IN_MODELS,
+  defaultModel: 'gemini-2.5-flash',
+  utilityModel: 'gemini-2.5-flash',
+};
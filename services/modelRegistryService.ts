@@ -0,0 +1,57 @@
+import { ModelInfo, ModelPrice, ModelRegistry, Sender, StoredChat } from '../types';
+import { BUILT_IN_MODEL_REGISTRY } from './modelCatalog';
+import * as localStorageService from './localStorageService';
+import { fetchProxy } from './authService';
+
+// The model list comes from the server. Until it arrives the last list fetched (or the
+// built-in catalog on a first visit) is used, so the app never waits on it to start.
+
+let currentRegistry: ModelRegistry = localStorageService.loadModelRegistry() || BUILT_IN_MODEL_REGISTRY;
+
+export const getModelRegistry = (): ModelRegistry => currentRegistry;
+
+export const fetchModelRegistry = async (): Promise<ModelRegistry> => {
+  const response = await fetchProxy('/api/proxy?resource=models');
+  if (!response.ok) {
+    throw new Error(`Model list request failed with status ${response.status}`);
+  }
+  const registry: ModelRegistry = await response.json();
+  if (!Array.isArray(registry.models) || registry.models.length === 0) {
+    throw new Error('The server returned an empty model list.');
+  }
+  currentRegistry = registry;
+  localStorageService.saveModelRegistry(registry);
+  return registry;
+};
+
+export const getAvailableModelIds = (): string[] => currentRegistry.models.map(model => model.id);
+
+export const getModelInfo = (modelId: string): ModelInfo | undefined =>
+  currentRegistry.models.find(model => model.id === modelId);
+
+export const getFriendlyModelName = (modelId: string): string => getModelInfo(modelId)?.name || modelId;
+
+export const getDefaultChatModel = (): string => currentRegistry.defaultModel;
+
+export const isThinkingSupported = (modelId: string): boolean => !!getModelInfo(modelId)?.thinking;
+
+const FALLBACK_CONTEXT_WINDOW = 128_000;
+
+export const getModelContextWindow = (modelId: string): number => getModelInfo(modelId)?.contextWindow || FALLBACK_CONTEXT_WINDOW;
+
+// Includes models no longer offered, so costs of past usage can still be estimated.
+export const getDefaultModelPrices = (): Record<string, ModelPrice> => {
+  const prices: Record<string, ModelPrice> = {};
+  for (const model of [...BUILT_IN_MODEL_REGISTRY.models, ...currentRegistry.models]) {
+    prices[model.id] = model.pricing;
+  }
+  return prices;
+};
+
+// Chats saved before the model was stored per chat fall back to the model of their latest
+// reply; models that are no longer offered fall back to `fallbackModel`.
+export const getChatModel = (chat: StoredChat, fallbackModel: string): string => {
+  const latestReplyModel = [...chat.messages].reverse().find(msg => msg.sender === Sender.AI && msg.model)?.model;
+  const model = chat.model || latestReplyModel;
+  return model && getModelInfo(model) ? model : fallbackModel;
+};
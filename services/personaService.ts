@@ -0,0 +1,23 @@
+import { Persona, StoredChat } from '../types';
+
+// Personas are user-defined system instructions. A chat uses its own override if it has
+// one, then its persona's instructions, then the built-in assistant prompt.
+
+export const DEFAULT_PERSONA_NAME = 'NeuraMorphosis AI';
+
+export const findPersona = (personas: Persona[], personaId: string | null | undefined): Persona | undefined =>
+  personaId ? personas.find(persona => persona.id === personaId) : undefined;
+
+export const hasInstructionOverride = (chat: StoredChat): boolean => !!chat.systemInstructionOverride?.trim();
+
+// Null means the chat uses the built-in prompt.
+export const resolveSystemInstruction = (chat: StoredChat, personas: Persona[]): string | null => {
+  if (hasInstructionOverride(chat)) return chat.systemInstructionOverride!.trim();
+  const personaInstructions = findPersona(personas, chat.personaId)?.instructions.trim();
+  return personaInstructions || null;
+};
+
+export const getChatPersonaLabel = (chat: StoredChat, personas: Persona[]): string => {
+  const name = findPersona(personas, chat.personaId)?.name || DEFAULT_PERSONA_NAME;
+  return hasInstructionOverride(chat) ? `${name} (custom)` : name;
+};
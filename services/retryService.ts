@@ -0,0 +1,46 @@
+// Waiting and retrying with backoff, for the app and the proxy alike. Only timers and
+// AbortSignal, as it is bundled into both the browser app and the edge function.
+
+export interface RetryOptions {
+  maxAttempts: number; // In all, including the first
+  baseDelayMs: number; // Before the second attempt; doubled after each further one
+  maxDelayMs: number;
+  isTransient: (error: unknown) => boolean;
+  signal?: AbortSignal;
+  onRetry?: (error: unknown, delayMs: number, nextAttempt: number) => void;
+}
+
+// Resolves after `ms`, or rejects with an AbortError once `signal` is aborted.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential, with jitter so that clients failing together don't retry together.
+export const getRetryDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
+
+// Runs `operation` again after a transient failure, up to `maxAttempts` times in all.
+export const retryWithBackoff = async <T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { maxAttempts, baseDelayMs, maxDelayMs, isTransient, signal, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxAttempts || signal?.aborted || !isTransient(error)) throw error;
+      const delayMs = getRetryDelay(attempt, baseDelayMs, maxDelayMs);
+      onRetry?.(error, delayMs, attempt + 1);
+      await sleep(delayMs, signal);
+    }
+  }
+};
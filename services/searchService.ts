@@ -0,0 +1,160 @@
+import { ChatMessageContent } from '../types';
+
+// In-memory inverted index over every message of every chat. Chats are re-indexed
+// message by message: as with storage, an unchanged message object is skipped, so
+// syncing after each streamed chunk only re-tokenizes the message being written.
+
+export interface SearchResult {
+  chatId: string;
+  chatTitle: string;
+  messageId: string;
+  snippet: string;
+  score: number;
+}
+
+interface IndexedMessage {
+  chatId: string;
+  message: ChatMessageContent;
+  termCounts: Map<string, number>;
+  length: number;
+}
+
+const SNIPPET_RADIUS = 60;
+const TITLE_MATCH_BONUS = 0.5;
+const PHRASE_MATCH_BONUS = 2;
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 0);
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Regex matching any of the query terms, used for both snippets and highlighting.
+export const buildHighlightPattern = (query: string): RegExp | null => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return null;
+  return new RegExp(`(${terms.map(escapeRegExp).sort((a, b) => b.length - a.length).join('|')})`, 'giu');
+};
+
+const buildSnippet = (text: string, query: string): string => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const pattern = buildHighlightPattern(query);
+  const matchIndex = pattern ? normalized.search(pattern) : -1;
+  if (matchIndex === -1) {
+    return normalized.length > SNIPPET_RADIUS * 2 ? normalized.slice(0, SNIPPET_RADIUS * 2) + '…' : normalized;
+  }
+  const start = Math.max(0, matchIndex - SNIPPET_RADIUS);
+  const end = Math.min(normalized.length, matchIndex + SNIPPET_RADIUS);
+  return (start > 0 ? '…' : '') + normalized.slice(start, end) + (end < normalized.length ? '…' : '');
+};
+
+export const createSearchIndex = () => {
+  const messagesById = new Map<string, IndexedMessage>();
+  const postings = new Map<string, Set<string>>(); // term -> message IDs
+  const messageIdsByChat = new Map<string, Set<string>>();
+  const chatTitles = new Map<string, string>();
+
+  const removeMessage = (messageId: string) => {
+    const indexed = messagesById.get(messageId);
+    if (!indexed) return;
+    for (const term of indexed.termCounts.keys()) {
+      const ids = postings.get(term);
+      ids?.delete(messageId);
+      if (ids && ids.size === 0) postings.delete(term);
+    }
+    messagesById.delete(messageId);
+    messageIdsByChat.get(indexed.chatId)?.delete(messageId);
+  };
+
+  const addMessage = (chatId: string, message: ChatMessageContent) => {
+    const tokens = tokenize(message.translation ? `${message.text}\n${message.translation.text}` : message.text);
+    const termCounts = new Map<string, number>();
+    for (const token of tokens) {
+      termCounts.set(token, (termCounts.get(token) || 0) + 1);
+    }
+    messagesById.set(message.id, { chatId, message, termCounts, length: tokens.length });
+    for (const term of termCounts.keys()) {
+      if (!postings.has(term)) postings.set(term, new Set());
+      postings.get(term)!.add(message.id);
+    }
+    if (!messageIdsByChat.has(chatId)) messageIdsByChat.set(chatId, new Set());
+    messageIdsByChat.get(chatId)!.add(message.id);
+  };
+
+  const syncChat = (chatId: string, title: string, messages: ChatMessageContent[]) => {
+    chatTitles.set(chatId, title);
+    const currentIds = new Set(messages.map(message => message.id));
+    for (const messageId of Array.from(messageIdsByChat.get(chatId) || [])) {
+      if (!currentIds.has(messageId)) removeMessage(messageId);
+    }
+    for (const message of messages) {
+      const indexed = messagesById.get(message.id);
+      if (indexed && indexed.message === message) continue;
+      removeMessage(message.id);
+      if (!message.isError) addMessage(chatId, message);
+    }
+  };
+
+  const removeChat = (chatId: string) => {
+    for (const messageId of Array.from(messageIdsByChat.get(chatId) || [])) {
+      removeMessage(messageId);
+    }
+    messageIdsByChat.delete(chatId);
+    chatTitles.delete(chatId);
+  };
+
+  const getIndexedChatIds = (): string[] => Array.from(chatTitles.keys());
+
+  // Every query term must match (the last one as a prefix, for search-as-you-type).
+  // Ranked by TF-IDF, with bonuses for exact phrase and chat title matches.
+  const search = (query: string, limit: number = 50): SearchResult[] => {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+
+    const totalMessages = Math.max(1, messagesById.size);
+    const matchesPerTerm = terms.map((term, index) => {
+      if (index < terms.length - 1) {
+        return new Set(postings.get(term) || []);
+      }
+      const ids = new Set<string>();
+      for (const [indexedTerm, termIds] of postings) {
+        if (indexedTerm.startsWith(term)) termIds.forEach(id => ids.add(id));
+      }
+      return ids;
+    });
+
+    const [firstMatches, ...otherMatches] = matchesPerTerm;
+    const candidateIds = Array.from(firstMatches).filter(id => otherMatches.every(matches => matches.has(id)));
+    const normalizedQuery = query.trim().toLowerCase();
+
+    const results = candidateIds.map((messageId): SearchResult => {
+      const indexed = messagesById.get(messageId)!;
+      let score = 0;
+      terms.forEach((term, index) => {
+        const documentFrequency = matchesPerTerm[index].size;
+        const idf = Math.log(1 + totalMessages / documentFrequency);
+        const termFrequency = indexed.termCounts.get(term) || 1;
+        score += (termFrequency / Math.sqrt(indexed.length || 1)) * idf;
+      });
+      if (terms.length > 1 && indexed.message.text.toLowerCase().includes(normalizedQuery)) {
+        score += PHRASE_MATCH_BONUS;
+      }
+      const chatTitle = chatTitles.get(indexed.chatId) || '';
+      if (terms.every(term => chatTitle.toLowerCase().includes(term))) {
+        score += TITLE_MATCH_BONUS;
+      }
+      return {
+        chatId: indexed.chatId,
+        chatTitle,
+        messageId,
+        snippet: buildSnippet(indexed.message.text, query),
+        score,
+      };
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  };
+
+  return { syncChat, removeChat, getIndexedChatIds, search };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
@@ -0,0 +1,84 @@
+import { ProxyRequest, StreamEvent } from '../types';
+import { fetchProxy } from './authService';
+import { ProxyError, readProxyError, withRetry } from './errorService';
+
+// Client side of the NDJSON event stream sent by /api/proxy for chat and summaries.
+
+// Vercel turns away request bodies over about 4.5 MB, and the proxy's PROXY_MAX_BODY_MB
+// defaults to 4 MB. Requests are kept under this, with room to spare.
+export const MAX_PROXY_REQUEST_BYTES = 3.5 * 1024 * 1024;
+
+export const getRequestBytes = (body: unknown): number => new Blob([JSON.stringify(body)]).size;
+
+// Failures before streaming starts come back as a JSON ProxyErrorBody instead, and are
+// retried when transient. A request over MAX_PROXY_REQUEST_BYTES is not sent at all.
+export const fetchProxyStream = async (body: ProxyRequest, signal?: AbortSignal): Promise<Response> => {
+  if (getRequestBytes(body) > MAX_PROXY_REQUEST_BYTES) {
+    throw new ProxyError(`This request is too large to send: the limit is ${MAX_PROXY_REQUEST_BYTES / 1024 / 1024} MB.`, 413, 'payload-too-large');
+  }
+  return withRetry(async () => {
+    const response = await fetchProxy('/api/proxy', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw await readProxyError(response);
+    }
+    return response;
+  }, signal);
+};
+
+// Network chunks can end in the middle of a line, or of a multi-byte UTF-8
+// character, so bytes are decoded in streaming mode and only complete lines parsed.
+// The proxy always ends with 'done'; a body that ends without it was cut off on the
+// way (a dropped connection, a platform timeout), which is reported as an 'error' event.
+export const readStreamEvents = async function* (response: Response): AsyncGenerator<StreamEvent> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let sawDone = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (line.trim() !== '') {
+          const event = JSON.parse(line) as StreamEvent;
+          if (event.type === 'done') sawDone = true;
+          yield event;
+        }
+      }
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  if (!sawDone) {
+    yield { type: 'error', message: 'The connection closed before the response was complete.', code: 'network' };
+  }
+};
+
+// A short explanation for responses that did not end normally, or null for a normal end.
+export const describeFinishReason = (reason: string | undefined): string | null => {
+  if (!reason || reason === 'STOP' || reason === 'FINISH_REASON_UNSPECIFIED') return null;
+  switch (reason) {
+    case 'MAX_TOKENS':
+      return 'The response was cut off because it reached the maximum output length.';
+    case 'SAFETY':
+    case 'IMAGE_SAFETY':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+    case 'SPII':
+      return 'The response was blocked by the model\'s safety filters.';
+    case 'RECITATION':
+      return 'The response was stopped because it too closely matched existing content.';
+    default:
+      return `The response ended early (${reason}).`;
+  }
+};
@@ -0,0 +1,51 @@
+import { ModelThinkingRange, ThinkingLevel } from '../types';
+
+// Thinking effort is chosen as a preset and turned into a token budget for the model in
+// use, since each model accepts a different range.
+
+export const DEFAULT_THINKING_LEVEL: ThinkingLevel = 'dynamic';
+
+export const DYNAMIC_THINKING_BUDGET = -1; // Lets the model decide how much to think
+
+export const THINKING_LEVELS: { value: ThinkingLevel; label: string; description: string }[] = [
+  { value: 'off', label: 'Off', description: 'No thinking, for the fastest replies. Some models always think a little.' },
+  { value: 'low', label: 'Low', description: 'A short think before answering.' },
+  { value: 'medium', label: 'Medium', description: 'Room to work through multi-step questions.' },
+  { value: 'high', label: 'High', description: 'Longer reasoning for hard problems, at the cost of speed.' },
+  { value: 'max', label: 'Max', description: 'The largest budget the model allows.' },
+  { value: 'dynamic', label: 'Auto', description: 'The model decides how much to think based on the question.' },
+];
+
+const LEVEL_BUDGETS: Record<'low' | 'medium' | 'high', number> = {
+  low: 1024,
+  medium: 8192,
+  high: 16384,
+};
+
+// Returns undefined when the model's budget can't be set, so no thinking config is sent.
+export const getThinkingBudget = (level: ThinkingLevel, range: ModelThinkingRange | null | undefined): number | undefined => {
+  if (!range) return undefined;
+  switch (level) {
+    case 'dynamic':
+      return DYNAMIC_THINKING_BUDGET;
+    case 'off':
+      return range.minBudget;
+    case 'max':
+      return range.maxBudget;
+    default:
+      return Math.min(Math.max(LEVEL_BUDGETS[level], range.minBudget), range.maxBudget);
+  }
+};
+
+export const describeThinkingBudget = (budget: number | undefined): string => {
+  if (budget === undefined) return 'Not adjustable';
+  if (budget === DYNAMIC_THINKING_BUDGET) return 'Decided by the model';
+  if (budget === 0) return 'Thinking off';
+  return `Up to ${budget.toLocaleString()} tokens`;
+};
+
+export const formatThinkingDuration = (ms: number): string => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
@@ -0,0 +1,98 @@
+import { StoredChat, TokenUsage, Sender, ModelPrice } from '../types';
+
+// Aggregates the token usage recorded on AI messages. Costs are estimates from
+// user-editable per-model prices; thinking tokens are billed at the output rate.
+// Only completed chat replies carry usage: stopped replies, titles, translations,
+// compaction and summaries are not counted here (the proxy's daily quota does count them).
+
+export type UsageGrouping = 'chat' | 'model' | 'day';
+
+export interface UsageRecord {
+  chatId: string;
+  chatTitle: string;
+  model: string;
+  day: string; // YYYY-MM-DD in local time
+  usage: TokenUsage;
+}
+
+export interface UsageSummary {
+  key: string;
+  label: string;
+  responses: number;
+  promptTokens: number;
+  outputTokens: number;
+  thoughtTokens: number;
+  totalTokens: number;
+  cost: number | null; // null when no price is known for any of the models involved
+}
+
+export const UNKNOWN_MODEL = 'unknown';
+
+export const estimateCost = (usage: TokenUsage, price: ModelPrice | undefined): number | null => {
+  if (!price) return null;
+  return (usage.promptTokens * price.inputPerMillion + (usage.outputTokens + usage.thoughtTokens) * price.outputPerMillion) / 1_000_000;
+};
+
+const toLocalDay = (isoDate: string | undefined): string => {
+  const date = isoDate ? new Date(isoDate) : new Date(NaN);
+  if (isNaN(date.getTime())) return 'Unknown date';
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const collectUsageRecords = (chats: StoredChat[]): UsageRecord[] =>
+  chats.flatMap(chat =>
+    chat.messages
+      .filter(message => message.sender === Sender.AI && message.usage)
+      .map(message => ({
+        chatId: chat.id,
+        chatTitle: chat.title,
+        model: message.model || message.thinkingDetails?.modelUsed || UNKNOWN_MODEL,
+        day: toLocalDay(message.createdAt),
+        usage: message.usage!,
+      }))
+  );
+
+export const summarizeUsage = (
+  records: UsageRecord[],
+  grouping: UsageGrouping | null, // null for a single overall total
+  prices: Record<string, ModelPrice>
+): UsageSummary[] => {
+  const summaries = new Map<string, UsageSummary>();
+  for (const record of records) {
+    const key = grouping === 'chat' ? record.chatId : grouping === 'model' ? record.model : grouping === 'day' ? record.day : 'total';
+    const label = grouping === 'chat' ? record.chatTitle : grouping === 'model' ? record.model : grouping === 'day' ? record.day : 'Total';
+    const summary = summaries.get(key) || {
+      key, label, responses: 0, promptTokens: 0, outputTokens: 0, thoughtTokens: 0, totalTokens: 0, cost: null,
+    };
+    summary.responses += 1;
+    summary.promptTokens += record.usage.promptTokens;
+    summary.outputTokens += record.usage.outputTokens;
+    summary.thoughtTokens += record.usage.thoughtTokens;
+    summary.totalTokens += record.usage.totalTokens;
+    const cost = estimateCost(record.usage, prices[record.model]);
+    if (cost !== null) {
+      summary.cost = (summary.cost || 0) + cost;
+    }
+    summaries.set(key, summary);
+  }
+
+  const result = Array.from(summaries.values());
+  if (grouping === 'day') {
+    return result.sort((a, b) => b.key.localeCompare(a.key));
+  }
+  return result.sort((a, b) => (b.cost ?? 0) - (a.cost ?? 0) || b.totalTokens - a.totalTokens);
+};
+
+export const formatTokenCount = (count: number): string => {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0)}k`;
+  return `${(count / 1_000_000).toFixed(2)}M`;
+};
+
+export const formatCost = (cost: number | null): string => {
+  if (cost === null) return '—';
+  if (cost > 0 && cost < 0.01) return '<$0.01';
+  return `$${cost.toFixed(2)}`;
+};
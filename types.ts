@@ -4,24 +4,180 @@ export enum Sender {
   AI = 'ai',
 }
 
+export type ThinkingLevel = 'off' | 'low' | 'medium' | 'high' | 'max' | 'dynamic';
+
 export interface ThinkingDetails {
   enabled: boolean; // Was thinking (budget > 0 or model default) active?
-  budget?: number;   // The thinking budget UI value used
+  level?: ThinkingLevel; // The preset chosen in settings
+  budget?: number;   // Token budget sent for that preset; -1 lets the model decide
   modelUsed?: string; // The model for which thinking was configured
   reasoningSupportedByModel: boolean; // True if the model supports budget-controlled thinking
-  // includeThoughts and actualThoughts removed
+  thoughts?: string; // Thought summaries streamed by the model, shown in the thoughts panel
+  thinkingMs?: number; // From the first thought to the first word of the answer
+}
+
+export interface MessageTranslation {
+  languageCode: string; // The target language code the text was translated to
+  languageName: string; // Human-readable name, shown on the original/translated toggle
+  text: string;
+}
+
+export interface MessageAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Original file size in bytes
+  data: string; // Base64-encoded file contents, sent to Gemini as inlineData
+}
+
+export type ErrorCategory = 'rate-limit' | 'overloaded' | 'safety' | 'invalid-request' | 'auth' | 'network' | 'unknown';
+
+export interface MessageError {
+  category: ErrorCategory;
+  message: string;
 }
 
 export interface ChatMessageContent {
   id: string;
-  text: string;
+  text: string; // Always the original, untranslated text
   sender: Sender;
+  parentId?: string | null; // Previous message in the conversation tree; null for a root message
+  createdAt?: string; // ISO string; missing on messages saved before timestamps were recorded
+  attachments?: MessageAttachment[];
   isStreaming?: boolean;
   isError?: boolean;
+  error?: MessageError; // Why the reply failed; older failed messages keep the error in `text` instead
+  isStopped?: boolean; // Generation was cancelled by the user; text holds the partial response
   thinkingDetails?: ThinkingDetails;
+  translation?: MessageTranslation;
+  isTranslating?: boolean;
+  finishReason?: string; // As reported by the model, e.g. 'STOP', 'MAX_TOKENS', 'SAFETY'
+  streamError?: string; // The stream failed after part of the response had arrived
+  model?: string; // Model that generated this AI message
+  usage?: TokenUsage; // Tokens consumed by the turn that produced this AI message
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  thoughtTokens: number;
+  totalTokens: number;
 }
 
-// For Gemini API chat history
+export interface ModelPrice {
+  inputPerMillion: number; // USD per 1M prompt tokens
+  outputPerMillion: number; // USD per 1M output and thinking tokens
+}
+
+export interface ModelThinkingRange {
+  minBudget: number; // 0 when thinking can be turned off
+  maxBudget: number;
+}
+
+// What the app knows about a chat model. Served by GET /api/proxy?resource=models so models
+// can be added or changed in server config; the client falls back to the built-in catalog.
+// The API a model is served by. 'openai' covers any OpenAI-compatible endpoint, including
+// local llama.cpp, Ollama and vLLM servers; 'mock' answers on the server without a model.
+export type ModelProvider = 'gemini' | 'openai' | 'anthropic' | 'mock';
+
+export interface ModelInfo {
+  id: string;
+  provider?: ModelProvider; // Defaults to 'gemini'
+  name: string; // Display name, e.g. "Flash (Fast & Efficient)"
+  contextWindow: number; // Input token limit
+  maxOutputTokens: number;
+  thinking: ModelThinkingRange | null; // null when the thinking budget cannot be set
+  attachmentMimeTypes: string[];
+  pricing: ModelPrice;
+  defaultParams: GenerationParams; // Used for fields neither the settings nor the chat set
+  paramLimits: { maxTemperature: number; maxTopK: number; maxCandidateCount: number };
+}
+
+// How /api/proxy checks who is calling it, reported by GET /api/proxy?resource=auth.
+export type AuthMode = 'none' | 'token' | 'session' | 'jwt';
+
+export interface AuthStatus {
+  mode: AuthMode;
+  user: { id: string } | null; // null when the request isn't signed in
+}
+
+// Machine-readable reason for an error response from /api/proxy.
+export type ProxyErrorCode =
+  | 'invalid-json' // The body isn't JSON
+  | 'invalid-request' // A field is missing, of the wrong type or too long; see `path`
+  | 'unknown-type' // `type` isn't one of ProxyRequest's
+  | 'unknown-model' // The model isn't offered by this deployment
+  | 'unsupported-attachment' // The model doesn't accept this attachment type
+  | 'payload-too-large' // 413: the body is over the size limit
+  | 'method-not-allowed' // 405
+  | 'unauthorized' // 401: sign in first
+  | 'rate-limited' // 429: this deployment's limits; see RateLimitErrorBody
+  | 'quota-exceeded' // 429: the model provider's quota or rate limit
+  | 'overloaded' // 503: the model provider is overloaded or unavailable
+  | 'network' // 502: the model provider couldn't be reached
+  | 'safety-blocked' // 400: the model provider refused the content
+  | 'provider-auth' // 502: the server's credentials for the model provider were refused
+  | 'internal-error'; // 500 or 502: anything else
+
+// Provider failures that may pass when the same request is sent again. The proxy retries these.
+export const TRANSIENT_ERROR_CODES: ProxyErrorCode[] = ['quota-exceeded', 'overloaded', 'network'];
+
+export interface ProxyErrorBody {
+  error: string; // Human-readable
+  code: ProxyErrorCode;
+  path?: string; // The offending field for 'invalid-request', e.g. "payload.history[3].role"
+}
+
+// Body of a 429 response from /api/proxy; the same delay is sent in the Retry-After header.
+export interface RateLimitErrorBody extends ProxyErrorBody {
+  code: 'rate-limited';
+  limit: 'requests' | 'tokens'; // Requests per minute, or tokens per day
+  retryAfterSeconds: number;
+}
+
+export interface ChatProxyPayload {
+  history: ChatMessageHistoryItem[]; // Earlier turns, oldest first
+  message: { parts: ChatMessageHistoryItem['parts'] }; // The new user turn
+  model: string;
+  config?: {
+    systemInstruction?: string;
+    thinkingConfig?: { thinkingBudget: number; includeThoughts?: boolean };
+  };
+  generationParams?: GenerationParams;
+}
+
+// Bodies accepted by POST /api/proxy. 'chat' and the summaries answer with an NDJSON
+// stream of StreamEvents, the rest with a TextProxyResponse.
+export type ProxyRequest =
+  | { type: 'chat'; payload: ChatProxyPayload }
+  | { type: 'summarize' | 'summarize-follow-up'; payload: { prompt: string; model: string } }
+  | { type: 'generate-title'; payload: { titlePrompt: string } }
+  | { type: 'translate'; payload: { translationPrompt: string } }
+  | { type: 'compact'; payload: { compactionPrompt: string } };
+
+export type ProxyRequestType = ProxyRequest['type'];
+
+export interface TextProxyResponse {
+  text: string;
+}
+
+export interface ModelRegistry {
+  models: ModelInfo[]; // Offered for chat, in menu order
+  defaultModel: string;
+  utilityModel: string; // Titles, translations and context summaries
+}
+
+// Events sent by /api/proxy for streaming requests, one JSON object per line (NDJSON).
+// A stream always ends with 'done'; an 'error' before it means the response is incomplete.
+export type StreamEvent =
+  | { type: 'text-delta'; text: string; candidate?: number } // candidate is set only for alternates (index 1+)
+  | { type: 'thought-delta'; text: string }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'finish'; reason: string; isPromptBlocked?: boolean }
+  | { type: 'error'; message: string; code?: ProxyErrorCode }
+  | { type: 'done' };
+
+// Chat history as sent to /api/proxy, in Gemini's shape; the proxy converts it for other providers.
 export interface ChatMessageHistoryItem {
   role: 'user' | 'model';
   parts: ({ text: string } | { inlineData: { data: string; mimeType: string } })[]; 
@@ -32,8 +188,50 @@ export interface StoredChat {
   id: string;
   title: string;
   createdAt: string; // ISO string
-  messages: ChatMessageContent[];
+  messages: ChatMessageContent[]; // Every message node, including alternate branches
+  activeLeafId?: string; // Last message of the branch currently shown
   aiMessagesSinceLastTitleUpdate?: number; // Counter for dynamic title updates
+  isPinned?: boolean;
+  folderId?: string | null; // ChatFolder.id; chats in a deleted folder fall back to the date groups
+  tags?: string[]; // Normalized: lowercase, trimmed, no leading '#'
+  isArchived?: boolean; // Hidden from the main list but kept, searchable and restorable
+  isTitleLocked?: boolean; // Set by a manual rename; stops automatic re-titling
+  deletedAt?: string; // ISO string; set while the chat is in the trash
+  contextSummary?: ContextSummary; // Rolling summary sent in place of the oldest turns
+  personaId?: string | null; // Persona.id; chats without one (or whose persona was deleted) use the built-in assistant
+  systemInstructionOverride?: string; // Replaces the persona's instructions for this chat only
+  model?: string; // Model for the next reply; each AI message records the model that wrote it
+  generationParams?: GenerationParams; // Per-chat overrides of the global generation settings
+}
+
+// Sampling settings sent with chat requests; unset fields use the model's defaults.
+// The proxy clamps them to each model's accepted ranges.
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  candidateCount?: number; // Extra candidates are kept as alternate replies
+}
+
+export interface ContextSummary {
+  text: string;
+  throughMessageId: string; // Last message folded into the summary; later ones are sent verbatim
+  createdAt: string; // ISO string
+}
+
+// A named, reusable system instruction
+export interface Persona {
+  id: string;
+  name: string;
+  instructions: string;
+}
+
+export interface ChatFolder {
+  id: string;
+  name: string;
+  isCollapsed?: boolean;
 }
 
 export interface FileUploadError {